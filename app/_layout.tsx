@@ -5,6 +5,7 @@ import { StatusBar } from 'expo-status-bar';
 import React, { useEffect } from 'react';
 import { Colors } from './constants/theme';
 import { AuthProvider } from './context/AuthContext';
+import { LanguageProvider } from './context/LanguageContext';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -28,18 +29,20 @@ export default function RootLayout() {
 
   return (
     <AuthProvider>
-      <StatusBar style="light" backgroundColor={Colors.primary} />
-      <Stack
-        screenOptions={{
-          headerShown: false,
-          contentStyle: { backgroundColor: Colors.white },
-          animation: 'default',
-        }}
-      >
-        <Stack.Screen name="index" options={{ animation: 'none' }} />
-        <Stack.Screen name="login" options={{ animation: 'fade' }} />
-        <Stack.Screen name="(chat)" options={{ animation: 'default' }} />
-      </Stack>
+      <LanguageProvider>
+        <StatusBar style="light" backgroundColor={Colors.primary} />
+        <Stack
+          screenOptions={{
+            headerShown: false,
+            contentStyle: { backgroundColor: Colors.white },
+            animation: 'default',
+          }}
+        >
+          <Stack.Screen name="index" options={{ animation: 'none' }} />
+          <Stack.Screen name="login" options={{ animation: 'fade' }} />
+          <Stack.Screen name="(chat)" options={{ animation: 'default' }} />
+        </Stack>
+      </LanguageProvider>
     </AuthProvider>
   );
 }
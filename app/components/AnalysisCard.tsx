@@ -0,0 +1,186 @@
+/**
+ * Analysis Card Component
+ * Renders a structured StockAnalysis as a card with sections
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
+import { AnalysisVerdict, StockAnalysis } from '../types';
+
+interface AnalysisCardProps {
+  analysis: StockAnalysis;
+  style?: ViewStyle;
+}
+
+const VERDICT_COLORS: Record<AnalysisVerdict, string> = {
+  buy: Colors.success,
+  hold: Colors.warning,
+  sell: Colors.error,
+};
+
+export const AnalysisCard: React.FC<AnalysisCardProps> = ({ analysis, style }) => {
+  const { t } = useLanguage();
+
+  const renderList = (items: string[], icon: string, color: string) =>
+    items.map((item, idx) => (
+      <View key={idx} style={styles.listItem}>
+        <FontAwesome name={icon as any} size={12} color={color} style={styles.listIcon} />
+        <Text style={styles.listText}>{item}</Text>
+      </View>
+    ));
+
+  return (
+    <View style={[styles.card, style]}>
+      {/* Header: ticker + verdict */}
+      <View style={styles.header}>
+        <Text style={styles.ticker}>{analysis.ticker}</Text>
+        <View style={[styles.verdictBadge, { backgroundColor: VERDICT_COLORS[analysis.verdict] }]}>
+          <Text style={styles.verdictText}>{t(`analysis.${analysis.verdict}`)}</Text>
+        </View>
+      </View>
+
+      {/* Confidence */}
+      <View style={styles.confidenceRow}>
+        <Text style={styles.confidenceLabel}>{t('analysis.confidence', { value: analysis.confidence })}</Text>
+        <View style={styles.confidenceTrack}>
+          <View style={[styles.confidenceFill, { width: `${analysis.confidence}%` }]} />
+        </View>
+      </View>
+
+      {/* Thesis */}
+      <Text style={styles.sectionTitle}>{t('analysis.thesis')}</Text>
+      <Text style={styles.bodyText}>{analysis.thesis}</Text>
+
+      {/* Valuation */}
+      {analysis.valuationMetrics.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>{t('analysis.valuation')}</Text>
+          {analysis.valuationMetrics.map((metric, idx) => (
+            <View key={idx} style={styles.metricRow}>
+              <View style={styles.metricMain}>
+                <Text style={styles.metricName}>{metric.name}</Text>
+                <Text style={styles.metricValue}>{metric.value}</Text>
+              </View>
+              {metric.comment && <Text style={styles.metricComment}>{metric.comment}</Text>}
+            </View>
+          ))}
+        </>
+      )}
+
+      {/* Risks */}
+      {analysis.risks.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>{t('analysis.risks')}</Text>
+          {renderList(analysis.risks, 'exclamation-triangle', Colors.warning)}
+        </>
+      )}
+
+      {/* Catalysts */}
+      {analysis.catalysts.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>{t('analysis.catalysts')}</Text>
+          {renderList(analysis.catalysts, 'bolt', Colors.accent)}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ticker: {
+    ...Typography.heading3,
+    color: Colors.text,
+  },
+  verdictBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  verdictText: {
+    ...Typography.caption,
+    color: Colors.white,
+    fontWeight: '700',
+  },
+  confidenceRow: {
+    marginTop: Spacing.sm,
+  },
+  confidenceLabel: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    marginBottom: Spacing.xs,
+  },
+  confidenceTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.gray300,
+    overflow: 'hidden',
+  },
+  confidenceFill: {
+    height: 6,
+    backgroundColor: Colors.accent,
+  },
+  sectionTitle: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  bodyText: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+  },
+  metricRow: {
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  metricMain: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  metricName: {
+    ...Typography.bodySmall,
+    color: Colors.gray600,
+  },
+  metricValue: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  metricComment: {
+    ...Typography.caption,
+    color: Colors.textLight,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.xs,
+  },
+  listIcon: {
+    marginTop: 4,
+    marginRight: Spacing.sm,
+  },
+  listText: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+    flex: 1,
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * Follow-up Chips Component
+ * Horizontal row of suggested follow-up questions shown above the input box;
+ * tapping a chip sends that question
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+
+interface FollowUpChipsProps {
+  suggestions: string[];
+  onSelect: (question: string) => void;
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+export const FollowUpChips: React.FC<FollowUpChipsProps> = ({
+  suggestions,
+  onSelect,
+  disabled = false,
+  style,
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {suggestions.map((question, idx) => (
+          <TouchableOpacity
+            key={idx}
+            style={[styles.chip, disabled && styles.chipDisabled]}
+            onPress={() => onSelect(question)}
+            disabled={disabled}
+            activeOpacity={0.7}
+          >
+            <FontAwesome name="comment-o" size={12} color={Colors.accent} style={styles.chipIcon} />
+            <Text style={styles.chipText} numberOfLines={1}>{question}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingBottom: Spacing.sm,
+  },
+  content: {
+    paddingHorizontal: Spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.accent + '30',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs + 2,
+    marginRight: Spacing.sm,
+    maxWidth: 240,
+  },
+  chipDisabled: {
+    opacity: 0.5,
+  },
+  chipIcon: {
+    marginRight: Spacing.xs,
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.accent,
+    fontWeight: '600',
+  },
+});
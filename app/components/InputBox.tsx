@@ -1,9 +1,11 @@
 /**
  * Input Box Component with file attachment support
+ * Shows a stop button while a response is streaming (when onStop is provided)
+ * In edit mode (editingText) the text is prefilled and a banner allows cancelling
  */
 
 import { FontAwesome } from '@expo/vector-icons';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Platform,
@@ -15,27 +17,52 @@ import {
   View,
 } from 'react-native';
 import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
 import { FileAttachment } from '../types';
 
 interface InputBoxProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void;
+  analysisMode?: boolean;
+  onToggleAnalysisMode?: () => void;
   onAttachFile: () => void;
   onRemoveAttachment?: (fileId: string) => void;
   attachments?: FileAttachment[];
   loading?: boolean;
   parsing?: boolean;
+  /** Text of the message being edited (edit mode when set) */
+  editingText?: string;
+  onCancelEdit?: () => void;
 }
 
 export const InputBox: React.FC<InputBoxProps> = ({
   onSendMessage,
+  onStop,
+  analysisMode = false,
+  onToggleAnalysisMode,
   onAttachFile,
   onRemoveAttachment,
   attachments = [],
   loading = false,
   parsing = false,
+  editingText,
+  onCancelEdit,
 }) => {
+  const { t } = useLanguage();
   const [text, setText] = useState('');
 
+  // Prefill the input when a message is picked for editing
+  useEffect(() => {
+    if (editingText !== undefined) {
+      setText(editingText);
+    }
+  }, [editingText]);
+
+  const handleCancelEdit = () => {
+    setText('');
+    onCancelEdit?.();
+  };
+
   const handleSend = () => {
     if (text.trim()) {
       onSendMessage(text);
@@ -45,6 +72,20 @@ export const InputBox: React.FC<InputBoxProps> = ({
 
   return (
     <View style={styles.container}>
+      {/* Edit mode banner */}
+      {editingText !== undefined && (
+        <View style={styles.editBanner}>
+          <FontAwesome name="pencil" size={12} color={Colors.accent} />
+          <Text style={styles.editBannerText} numberOfLines={1}>{t('input.editing')}</Text>
+          <TouchableOpacity
+            onPress={handleCancelEdit}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={styles.editCancelText}>{t('input.cancelEdit')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Attachments Display */}
       {attachments.length > 0 && (
         <View style={styles.attachmentsWrapper}>
@@ -72,7 +113,7 @@ export const InputBox: React.FC<InputBoxProps> = ({
           {!parsing && (
             <View style={styles.fileStatus}>
               <FontAwesome name="check-circle" size={12} color="#4CAF50" />
-              <Text style={styles.fileStatusText}>{attachments.length} file siap</Text>
+              <Text style={styles.fileStatusText}>{t('input.filesReady', { count: attachments.length })}</Text>
             </View>
           )}
         </View>
@@ -84,7 +125,7 @@ export const InputBox: React.FC<InputBoxProps> = ({
         <View style={styles.inputContainer}>
           <TextInput
             style={styles.input}
-            placeholder="Tanya tentang saham, ekonomi, atau analisis keuangan..."
+            placeholder={t('input.placeholder')}
             placeholderTextColor={Colors.textLight}
             multiline
             maxLength={1000}
@@ -107,25 +148,52 @@ export const InputBox: React.FC<InputBoxProps> = ({
             ) : (
               <>
                 <FontAwesome name="paperclip" size={16} color={Colors.accent} />
-                <Text style={styles.actionButtonText}>Lampirkan</Text>
+                <Text style={styles.actionButtonText}>{t('input.attach')}</Text>
               </>
             )}
           </TouchableOpacity>
 
-          <TouchableOpacity
-            onPress={handleSend}
-            disabled={!text.trim() || loading}
-            style={[styles.sendButton, (!text.trim() || loading) && styles.sendButtonDisabled]}
-          >
-            {loading ? (
-              <ActivityIndicator color={Colors.white} size="small" />
-            ) : (
-              <>
-                <FontAwesome name="paper-plane" size={16} color={Colors.white} />
-                <Text style={styles.sendButtonText}>Kirim</Text>
-              </>
-            )}
-          </TouchableOpacity>
+          {onToggleAnalysisMode && (
+            <TouchableOpacity
+              onPress={onToggleAnalysisMode}
+              disabled={loading}
+              style={[
+                styles.actionButton,
+                analysisMode && styles.actionButtonActive,
+                loading && styles.actionButtonDisabled,
+              ]}
+            >
+              <FontAwesome name="th-list" size={16} color={analysisMode ? Colors.white : Colors.accent} />
+              <Text style={[styles.actionButtonText, analysisMode && styles.actionButtonTextActive]}>
+                {t('input.card')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {loading && onStop ? (
+            <TouchableOpacity
+              onPress={onStop}
+              style={[styles.sendButton, styles.stopButton]}
+            >
+              <FontAwesome name="stop" size={14} color={Colors.white} />
+              <Text style={styles.sendButtonText}>{t('input.stop')}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={handleSend}
+              disabled={!text.trim() || loading}
+              style={[styles.sendButton, (!text.trim() || loading) && styles.sendButtonDisabled]}
+            >
+              {loading ? (
+                <ActivityIndicator color={Colors.white} size="small" />
+              ) : (
+                <>
+                  <FontAwesome name="paper-plane" size={16} color={Colors.white} />
+                  <Text style={styles.sendButtonText}>{t('input.send')}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     </View>
@@ -141,6 +209,26 @@ const styles = StyleSheet.create({
     paddingBottom: Platform.OS === 'ios' ? Spacing.lg : Spacing.md,
     paddingHorizontal: Spacing.md,
   },
+  editBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: Colors.accentXLight || '#E3F2FD',
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  editBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.accent,
+  },
+  editCancelText: {
+    fontSize: 12,
+    color: Colors.accent,
+    fontWeight: '600',
+  },
   attachmentsWrapper: {
     marginBottom: Spacing.sm,
   },
@@ -219,6 +307,12 @@ const styles = StyleSheet.create({
   actionButtonDisabled: {
     opacity: 0.5,
   },
+  actionButtonActive: {
+    backgroundColor: Colors.accent,
+  },
+  actionButtonTextActive: {
+    color: Colors.white,
+  },
   actionButtonText: {
     fontSize: 14,
     color: Colors.accent,
@@ -238,6 +332,9 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: Colors.gray400,
   },
+  stopButton: {
+    backgroundColor: Colors.error,
+  },
   sendButtonText: {
     fontSize: 14,
     color: Colors.white,
@@ -0,0 +1,57 @@
+/**
+ * Language Selector Component
+ * Compact toggle for the app language (UI text and model replies),
+ * independent of the persona settings
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
+import { LANGUAGES } from '../i18n';
+import { Language } from '../types';
+
+interface LanguageSelectorProps {
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+const LANGUAGE_IDS = Object.keys(LANGUAGES) as Language[];
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ disabled = false, style }) => {
+  const { language, setLanguage, t } = useLanguage();
+  const next = LANGUAGE_IDS[(LANGUAGE_IDS.indexOf(language) + 1) % LANGUAGE_IDS.length];
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={() => setLanguage(next)}
+      disabled={disabled}
+      activeOpacity={0.7}
+      accessibilityLabel={`${t('settings.language')}: ${LANGUAGES[language].label}`}
+    >
+      <FontAwesome name="globe" size={12} color={Colors.white} style={styles.icon} />
+      <Text style={styles.label}>{language.toUpperCase()}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  icon: {
+    marginRight: Spacing.xs,
+  },
+  label: {
+    ...Typography.caption,
+    color: Colors.white,
+    fontWeight: '600',
+  },
+});
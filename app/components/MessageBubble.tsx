@@ -3,37 +3,132 @@
  * Updated: Following finAdvisor architecture
  * 
  * Features:
- * - Displays grounding sources from Google Search
+ * - Displays cited sources (tool articles, Google Search grounding)
+ * - Renders [n] citation markers as tappable footnotes
  * - Shows file attachments indicator
  * - Basic markdown-like formatting (bold text)
+ * - Grows while a reply is streaming (isStreaming shows a cursor)
+ * - Renders structured analysis as a card (falls back to text)
+ * - Shows a failed reply's error, with a retry button when retryable
+ * - Collapsible "Data yang digunakan" panel with the reply's tool calls
+ * - Regenerate (assistant) / edit (user) actions and a ‹ n/m › branch switcher
+ * - Token usage and estimated cost of a reply next to the timestamp
+ * - Numbers that differ from the tool data are flagged with the verified value
  */
 
 import { FontAwesome } from '@expo/vector-icons';
 import React from 'react';
 import { Linking, ScrollView, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
 import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
-import { Message } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { BranchInfo } from '../services/messageTree';
+import { totalTokens } from '../services/usageService';
+import { FactMismatch, Message } from '../types';
+import { formatNumber, formatTime } from '../utils/helpers';
+import { AnalysisCard } from './AnalysisCard';
+import { ToolCallsPanel } from './ToolCallsPanel';
 
 interface MessageBubbleProps {
   message: Message;
   style?: ViewStyle;
+  /** Called from the error state of a failed, retryable reply */
+  onRetry?: (message: Message) => void;
+  /** Generate an alternative reply (kept as a sibling branch) */
+  onRegenerate?: (message: Message) => void;
+  /** Edit a question; the edited version forks a new branch */
+  onEdit?: (message: Message) => void;
+  /** Position among sibling branches; the switcher shows when total > 1 */
+  branch?: BranchInfo;
+  onSwitchBranch?: (message: Message, offset: number) => void;
+  /** Disable the actions (e.g. while a reply is streaming) */
+  actionsDisabled?: boolean;
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style }) => {
+export const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  style,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  branch,
+  onSwitchBranch,
+  actionsDisabled = false,
+}) => {
+  const { t } = useLanguage();
   const isUser = message.role === 'user';
+  const isSettled = !message.isStreaming && !message.error;
+  const showBranches = !!branch && branch.total > 1 && !!onSwitchBranch;
+  const canRegenerate = !isUser && isSettled && !!onRegenerate;
+  const canEdit = isUser && !!onEdit;
 
-  // Simple markdown-like bold text parsing (same as finAdvisor)
+  // Open the source cited by a [n] marker (sources are ordered by number)
+  const handleCitationPress = (ref: number) => {
+    const source = message.sources?.[ref - 1];
+    if (source) {
+      handleSourcePress(source.uri);
+    }
+  };
+
+  // Verified value as shown next to a flagged claim; changes carry their sign
+  const formatVerified = (mismatch: FactMismatch): string =>
+    mismatch.metric === 'change_percent' && mismatch.verifiedValue > 0
+      ? `+${formatNumber(mismatch.verifiedValue)}`
+      : formatNumber(mismatch.verifiedValue);
+
+  // Flag fact-check mismatches inside a piece of text starting at `offset` in the content
+  const renderFlagged = (text: string, offset: number, key: number) => {
+    const mismatches = (message.factCheck?.mismatches || []).filter(m =>
+      m.index >= offset && m.index + m.claimed.length <= offset + text.length
+    );
+    if (mismatches.length === 0) return text;
+
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    mismatches.forEach((mismatch, idx) => {
+      const start = mismatch.index - offset;
+      if (start < cursor) return;
+      nodes.push(text.slice(cursor, start));
+      nodes.push(
+        <Text key={`${key}-${idx}`}>
+          <Text style={styles.flaggedClaim}>{mismatch.claimed}</Text>
+          <Text style={styles.verifiedValue}>
+            {` ${t('message.factVerified', { value: formatVerified(mismatch) })}`}
+          </Text>
+        </Text>
+      );
+      cursor = start + mismatch.claimed.length;
+    });
+    nodes.push(text.slice(cursor));
+    return nodes;
+  };
+
+  // Simple markdown-like bold text parsing (same as finAdvisor) plus [n] footnotes
   const renderFormattedText = (text: string) => {
-    const parts = text.split(/(\*\*.*?\*\*)/);
+    const parts = text.split(/(\*\*.*?\*\*|\[\d+\])/);
+    let offset = 0;
     return parts.map((part, index) => {
+      const partOffset = offset;
+      offset += part.length;
       if (part.startsWith('**') && part.endsWith('**')) {
         return (
           <Text key={index} style={styles.boldText}>
-            {part.slice(2, -2)}
+            {renderFlagged(part.slice(2, -2), partOffset + 2, index)}
+          </Text>
+        );
+      }
+      const citation = part.match(/^\[(\d+)\]$/);
+      if (citation && !isUser && message.sources?.[Number(citation[1]) - 1]) {
+        return (
+          <Text
+            key={index}
+            style={styles.citationMarker}
+            onPress={() => handleCitationPress(Number(citation[1]))}
+          >
+            [{citation[1]}]
           </Text>
         );
       }
-      return part;
+      return <React.Fragment key={index}>{renderFlagged(part, partOffset, index)}</React.Fragment>;
     });
   };
 
@@ -59,7 +154,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style })
     >
       {/* Author Label */}
       <Text style={styles.authorLabel}>
-        {isUser ? 'Anda' : 'StockPocket AI'}
+        {isUser ? t('message.you') : 'StockPocket AI'}
       </Text>
 
       <View
@@ -82,15 +177,50 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style })
           </View>
         )}
 
-        {/* Message Content with basic formatting */}
-        <Text
-          style={[
-            styles.text,
-            isUser ? styles.userText : styles.assistantText,
-          ]}
-        >
-          {renderFormattedText(message.content)}
-        </Text>
+        {/* Structured analysis card, or message content with basic formatting */}
+        {message.analysis ? (
+          <AnalysisCard analysis={message.analysis} />
+        ) : message.error && !message.content ? null : (
+          <Text
+            style={[
+              styles.text,
+              isUser ? styles.userText : styles.assistantText,
+            ]}
+          >
+            {renderFormattedText(message.content)}
+            {message.isStreaming && <Text style={styles.streamingCursor}>▍</Text>}
+          </Text>
+        )}
+
+        {/* Fact check: numbers that differ from the tool data */}
+        {!isUser && !!message.factCheck?.mismatches.length && (
+          <View style={styles.factCheckRow}>
+            <FontAwesome name="exclamation-triangle" size={12} color={Colors.warning} style={styles.errorIcon} />
+            <Text style={styles.factCheckText}>
+              {t('message.factCheck', { count: message.factCheck.mismatches.length })}
+            </Text>
+          </View>
+        )}
+
+        {/* Error state (failed reply, partial text above is kept) */}
+        {message.error && (
+          <View style={[styles.errorContainer, !!message.content && styles.errorContainerSpaced]}>
+            <View style={styles.errorRow}>
+              <FontAwesome name="exclamation-circle" size={14} color={Colors.error} style={styles.errorIcon} />
+              <Text style={styles.errorText}>{t(`error.${message.error.kind}`)}</Text>
+            </View>
+            {message.error.retryable && onRetry && (
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={() => onRetry(message)}
+                activeOpacity={0.7}
+              >
+                <FontAwesome name="refresh" size={12} color={Colors.white} style={styles.errorIcon} />
+                <Text style={styles.retryText}>{t('message.retry')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
       {/* Grounding Sources (for assistant messages) - Similar to finAdvisor */}
@@ -98,7 +228,9 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style })
         <View style={styles.sourcesContainer}>
           <View style={styles.sourcesLabelContainer}>
             <FontAwesome name="book" size={10} color={Colors.textLight} style={styles.sourcesLabelIcon} />
-            <Text style={styles.sourcesLabel}>Sumber Referensi:</Text>
+            <Text style={styles.sourcesLabel}>
+              {message.route === 'search' ? t('message.searchSources') : t('message.sources')}
+            </Text>
           </View>
           <ScrollView 
             horizontal 
@@ -113,7 +245,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style })
                 activeOpacity={0.7}
               >
                 <Text style={styles.sourceText} numberOfLines={1}>
-                  {source.title}
+                  [{idx + 1}] {source.title}
                 </Text>
               </TouchableOpacity>
             ))}
@@ -121,12 +253,75 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, style })
         </View>
       )}
 
+      {/* Tool calls used for this reply */}
+      {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
+        <ToolCallsPanel toolCalls={message.toolCalls} />
+      )}
+
+      {/* Branch switcher and message actions */}
+      {(showBranches || canRegenerate || canEdit) && (
+        <View style={[styles.actionsRow, actionsDisabled && styles.actionsDisabled]}>
+          {showBranches && branch && (
+            <View style={styles.branchSwitcher}>
+              <TouchableOpacity
+                onPress={() => onSwitchBranch?.(message, -1)}
+                disabled={actionsDisabled || branch.index <= 1}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <FontAwesome
+                  name="chevron-left"
+                  size={10}
+                  color={branch.index <= 1 ? Colors.gray400 : Colors.white}
+                />
+              </TouchableOpacity>
+              <Text style={styles.branchText}>
+                {t('message.branch', { index: branch.index, total: branch.total })}
+              </Text>
+              <TouchableOpacity
+                onPress={() => onSwitchBranch?.(message, 1)}
+                disabled={actionsDisabled || branch.index >= branch.total}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <FontAwesome
+                  name="chevron-right"
+                  size={10}
+                  color={branch.index >= branch.total ? Colors.gray400 : Colors.white}
+                />
+              </TouchableOpacity>
+            </View>
+          )}
+          {canRegenerate && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => onRegenerate?.(message)}
+              disabled={actionsDisabled}
+              activeOpacity={0.7}
+            >
+              <FontAwesome name="refresh" size={10} color={Colors.white} style={styles.errorIcon} />
+              <Text style={styles.actionText}>{t('message.regenerate')}</Text>
+            </TouchableOpacity>
+          )}
+          {canEdit && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => onEdit?.(message)}
+              disabled={actionsDisabled}
+              activeOpacity={0.7}
+            >
+              <FontAwesome name="pencil" size={10} color={Colors.white} style={styles.errorIcon} />
+              <Text style={styles.actionText}>{t('message.edit')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Timestamp */}
       <Text style={styles.timestamp}>
-        {new Date(message.timestamp).toLocaleTimeString('id-ID', {
-          hour: '2-digit',
-          minute: '2-digit',
-        })}
+        {formatTime(message.timestamp)}
+        {!isUser && message.usage && ` · ${t('message.usage', {
+          tokens: formatNumber(totalTokens(message.usage)),
+          cost: message.usage.costUsd.toFixed(4),
+        })}`}
       </Text>
     </View>
   );
@@ -181,6 +376,104 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: Colors.text,
   },
+  citationMarker: {
+    color: Colors.accent,
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  streamingCursor: {
+    color: Colors.accent,
+  },
+  // Fact check styles
+  flaggedClaim: {
+    color: Colors.error,
+    textDecorationLine: 'underline',
+    textDecorationStyle: 'dotted',
+    textDecorationColor: Colors.error,
+  },
+  verifiedValue: {
+    color: Colors.success,
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  factCheckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+  factCheckText: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    flexShrink: 1,
+  },
+  // Error state styles
+  errorContainer: {
+    alignItems: 'flex-start',
+  },
+  errorContainerSpaced: {
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  errorIcon: {
+    marginRight: Spacing.xs,
+  },
+  errorText: {
+    ...Typography.bodySmall,
+    color: Colors.error,
+    flexShrink: 1,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.accent,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.sm,
+  },
+  retryText: {
+    ...Typography.caption,
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  // Actions / branch switcher styles
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  actionsDisabled: {
+    opacity: 0.5,
+  },
+  branchSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  branchText: {
+    ...Typography.caption,
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  actionText: {
+    ...Typography.caption,
+    color: Colors.white,
+  },
   timestamp: {
     ...Typography.caption,
     color: Colors.white,
@@ -0,0 +1,150 @@
+/**
+ * Persona Selector Component
+ * Collapsible bar to pick the session's analysis persona and the
+ * user's risk profile (see services/personas.ts)
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
+import { PERSONAS, RISK_PROFILES } from '../services/personas';
+import { PersonaId, RiskProfile } from '../types';
+
+interface PersonaSelectorProps {
+  persona: PersonaId;
+  riskProfile: RiskProfile;
+  onPersonaChange: (persona: PersonaId) => void;
+  onRiskProfileChange: (riskProfile: RiskProfile) => void;
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+export const PersonaSelector: React.FC<PersonaSelectorProps> = ({
+  persona,
+  riskProfile,
+  onPersonaChange,
+  onRiskProfileChange,
+  disabled = false,
+  style,
+}) => {
+  const { t } = useLanguage();
+  const [expanded, setExpanded] = useState(false);
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      disabled={disabled}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, style]}>
+      <TouchableOpacity
+        style={styles.summaryRow}
+        onPress={() => setExpanded(prev => !prev)}
+        activeOpacity={0.7}
+      >
+        <FontAwesome name="user-circle" size={12} color={Colors.white} style={styles.summaryIcon} />
+        <Text style={styles.summaryText} numberOfLines={1}>
+          {t('settings.summary', { persona: t(`persona.${persona}`), risk: t(`risk.${riskProfile}`) })}
+        </Text>
+        <FontAwesome name={expanded ? 'chevron-up' : 'chevron-down'} size={10} color={Colors.white} />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.panel}>
+          <Text style={styles.groupLabel}>{t('settings.persona')}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {(Object.keys(PERSONAS) as PersonaId[]).map(id =>
+              renderChip(id, t(`persona.${id}`), id === persona, () => onPersonaChange(id))
+            )}
+          </ScrollView>
+          <Text style={styles.description}>{t(`persona.${persona}.description`)}</Text>
+
+          <Text style={styles.groupLabel}>{t('settings.riskProfile')}</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(RISK_PROFILES) as RiskProfile[]).map(id =>
+              renderChip(id, t(`risk.${id}`), id === riskProfile, () => onRiskProfileChange(id))
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  summaryIcon: {
+    marginRight: Spacing.xs,
+  },
+  summaryText: {
+    ...Typography.caption,
+    color: Colors.white,
+    fontWeight: '600',
+    marginRight: Spacing.xs,
+  },
+  panel: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  groupLabel: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    fontSize: 10,
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  description: {
+    ...Typography.caption,
+    color: Colors.gray600,
+    marginTop: Spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginRight: Spacing.sm,
+  },
+  chipActive: {
+    backgroundColor: Colors.accent,
+    borderColor: Colors.accent,
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  chipTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * Quota Banner Component
+ * Notice above the chat when a data API (FMP, NewsAPI) has hit its limit or
+ * answered that an endpoint needs a paid plan, so the user knows why answers
+ * use cached data (see quotaTracker.ts)
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
+import { QuotaProvider, QuotaStatus } from '../types';
+import { formatDate, formatTime } from '../utils/helpers';
+
+interface QuotaBannerProps {
+  statuses: QuotaStatus[];
+  style?: ViewStyle;
+}
+
+const PROVIDER_LABELS: Record<QuotaProvider, string> = {
+  fmp: 'FMP',
+  newsapi: 'NewsAPI',
+};
+
+export const QuotaBanner: React.FC<QuotaBannerProps> = ({ statuses, style }) => {
+  const { t } = useLanguage();
+
+  const notices = statuses.flatMap(status => {
+    const provider = PROVIDER_LABELS[status.provider];
+    if (status.limited && status.limitedUntil) {
+      return [t('quota.limited', {
+        provider,
+        date: formatDate(status.limitedUntil),
+        time: formatTime(status.limitedUntil),
+      })];
+    }
+    if (status.paidOnly.length > 0) {
+      return [t('quota.paidOnly', { provider, endpoints: status.paidOnly.join(', ') })];
+    }
+    return [];
+  });
+
+  if (notices.length === 0) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <FontAwesome name="exclamation-triangle" size={12} color={Colors.warning} style={styles.icon} />
+      <View style={styles.notices}>
+        {notices.map(notice => (
+          <Text key={notice} style={styles.text}>{notice}</Text>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.warning + '15',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.warning + '40',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs + 2,
+    marginHorizontal: Spacing.md,
+    marginTop: Spacing.xs,
+  },
+  icon: {
+    marginTop: 2,
+    marginRight: Spacing.xs,
+  },
+  notices: {
+    flex: 1,
+  },
+  text: {
+    ...Typography.caption,
+    color: Colors.gray700,
+  },
+});
@@ -0,0 +1,142 @@
+/**
+ * Tool Calls Panel Component
+ * Collapsible "Data yang digunakan" panel listing the tools (data sources)
+ * called for an assistant reply, with arguments, status, duration and result;
+ * results served from an outdated cache show when the data was fetched (and
+ * whether an API data limit is the reason)
+ */
+
+import { FontAwesome } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
+import { useLanguage } from '../context/LanguageContext';
+import { ToolCallTrace } from '../types';
+import { formatDate, formatTime } from '../utils/helpers';
+
+interface ToolCallsPanelProps {
+  toolCalls: ToolCallTrace[];
+  style?: ViewStyle;
+}
+
+const formatArgs = (args: Record<string, unknown>): string =>
+  Object.entries(args)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ');
+
+export const ToolCallsPanel: React.FC<ToolCallsPanelProps> = ({ toolCalls, style }) => {
+  const { t } = useLanguage();
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <View style={[styles.container, style]}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(prev => !prev)}
+        activeOpacity={0.7}
+      >
+        <FontAwesome name="database" size={10} color={Colors.textLight} style={styles.headerIcon} />
+        <Text style={styles.headerLabel}>{t('message.dataUsed', { count: toolCalls.length })}</Text>
+        <FontAwesome name={expanded ? 'chevron-up' : 'chevron-down'} size={10} color={Colors.textLight} />
+      </TouchableOpacity>
+
+      {expanded && toolCalls.map((call, idx) => {
+        const failed = call.status === 'error';
+        return (
+          <View key={idx} style={styles.item}>
+            <View style={styles.itemHeader}>
+              <FontAwesome
+                name={failed ? 'times-circle' : 'check-circle'}
+                size={12}
+                color={failed ? Colors.error : Colors.success}
+                style={styles.headerIcon}
+              />
+              <Text style={styles.toolName} numberOfLines={1}>{call.name}</Text>
+              <Text style={styles.duration}>{call.durationMs}ms</Text>
+            </View>
+            {Object.keys(call.args).length > 0 && (
+              <Text style={styles.args} numberOfLines={2}>{formatArgs(call.args)}</Text>
+            )}
+            <Text style={[styles.summary, failed && styles.summaryError]} numberOfLines={3}>
+              {call.summary}
+            </Text>
+            {call.freshness?.stale && (
+              <Text style={styles.stale}>
+                {t(call.freshness.quotaLimited ? 'message.quotaLimited' : 'message.staleData', {
+                  date: formatDate(call.freshness.fetchedAt),
+                  time: formatTime(call.freshness.fetchedAt),
+                })}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.xs,
+    maxWidth: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerIcon: {
+    marginRight: Spacing.xs,
+  },
+  headerLabel: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    fontSize: 10,
+    letterSpacing: 0.5,
+    marginRight: Spacing.xs,
+  },
+  item: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolName: {
+    ...Typography.caption,
+    color: Colors.text,
+    fontWeight: '600',
+    flex: 1,
+  },
+  duration: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    fontSize: 10,
+  },
+  args: {
+    ...Typography.caption,
+    color: Colors.gray600,
+    marginTop: 2,
+  },
+  summary: {
+    ...Typography.caption,
+    color: Colors.text,
+    marginTop: 2,
+  },
+  summaryError: {
+    color: Colors.error,
+  },
+  stale: {
+    ...Typography.caption,
+    color: Colors.warning,
+    fontSize: 10,
+    marginTop: 2,
+  },
+});
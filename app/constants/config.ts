@@ -2,12 +2,71 @@
  * Application Configuration
  */
 
+/**
+ * Numeric env value; any finite number (including 0) is used, unset or
+ * non-numeric values fall back to the default. Pass process.env.X directly:
+ * Expo only inlines statically referenced EXPO_PUBLIC_ variables.
+ */
+const envNumber = (value: string | undefined, fallback: number): number => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : fallback;
+};
+
+// Values copied from .env.example or docs are not real keys
+const PLACEHOLDER_KEYS = ['demo', 'your_fmp_api_key_here', 'your_fmp_key', 'your_news_api_key_here'];
+
+/**
+ * True when a data API key looks real (not empty or a placeholder)
+ */
+export const isRealKey = (key: string, placeholders: string[] = PLACEHOLDER_KEYS): boolean =>
+  key.length > 5 && !placeholders.includes(key);
+
 export const AppConfig = {
   // API Configuration
   API: {
-    GEMINI_MODEL: 'gemini-pro',
+    // LLM backend: 'gemini' (Google) or 'openai' (any OpenAI-compatible server, e.g. a local model)
+    PROVIDER: (process.env.EXPO_PUBLIC_LLM_PROVIDER === 'openai' ? 'openai' : 'gemini') as 'gemini' | 'openai',
+    GEMINI_API_KEY: process.env.EXPO_PUBLIC_GEMINI_API_KEY || '',
+    GEMINI_MODEL: process.env.EXPO_PUBLIC_GEMINI_MODEL || 'gemini-2.5-flash',
+    OPENAI_BASE_URL: process.env.EXPO_PUBLIC_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    OPENAI_API_KEY: process.env.EXPO_PUBLIC_OPENAI_API_KEY || '',
+    OPENAI_MODEL: process.env.EXPO_PUBLIC_OPENAI_MODEL || 'llama3.1',
     REQUEST_TIMEOUT: 30000, // 30 seconds
     MAX_RETRIES: 3,
+    MAX_TOOL_ITERATIONS: 5, // Max rounds of function calls per message
+    TOOL_LOOP_TIMEOUT: 45000, // 45 seconds total for the whole tool loop
+    FINAL_ANSWER_TIMEOUT: 20000, // Reserved after the tool loop for the final answer (model calls never run past both)
+    TOOL_TIMEOUT: 15000, // Default timeout for a single tool call
+  },
+
+  // Market data (see marketDataService.ts); the only place the data keys are read
+  MARKET_DATA: {
+    // 'fmp' (live API) or 'fixture' (recorded JSON, offline; see fixtureMarketDataProvider.ts)
+    PROVIDER: (process.env.EXPO_PUBLIC_MARKET_DATA_PROVIDER === 'fixture' ? 'fixture' : 'fmp') as 'fmp' | 'fixture',
+    FIXTURES_DIR: process.env.EXPO_PUBLIC_MARKET_FIXTURES_DIR || '', // Default: the bundled fixtures/market/
+    FMP_API_KEY: process.env.EXPO_PUBLIC_FMP_API_KEY || '',
+    FMP_BASE_URL: 'https://financialmodelingprep.com/stable',
+    NEWS_API_KEY: process.env.EXPO_PUBLIC_NEWS_API_KEY || '',
+    NEWS_BASE_URL: 'https://newsapi.org/v2',
+    MAX_LIST_ITEMS: 10, // Movers, indicators and search results per call
+    // Cache lifetime per data type (ms); statements are kept until the next expected filing
+    CACHE_TTL: {
+      quote: 60 * 1000, // 1 minute
+      profile: 7 * 24 * 60 * 60 * 1000, // 7 days
+      keyMetrics: 24 * 60 * 60 * 1000, // 1 day
+      history: 6 * 60 * 60 * 1000, // 6 hours (end-of-day prices)
+      search: 7 * 24 * 60 * 60 * 1000, // 7 days
+      movers: 5 * 60 * 1000, // 5 minutes
+      indicator: 24 * 60 * 60 * 1000, // 1 day
+      news: 30 * 60 * 1000, // 30 minutes
+    },
+    MAX_CACHE_ENTRIES: 300, // Persisted entries; least recently written are evicted
+    // Calls per provider per day (free tiers: FMP 250, NewsAPI developer 100; 0 = no limit)
+    DAILY_CALL_LIMIT: {
+      fmp: envNumber(process.env.EXPO_PUBLIC_FMP_DAILY_LIMIT, 250),
+      newsapi: envNumber(process.env.EXPO_PUBLIC_NEWS_DAILY_LIMIT, 100),
+    },
   },
 
   // File Upload
@@ -22,6 +81,36 @@ export const AppConfig = {
     MAX_MESSAGE_LENGTH: 1000,
     MESSAGE_RETENTION_DAYS: 90,
     AUTO_SAVE_INTERVAL: 500, // milliseconds
+    CONTEXT_TOKEN_BUDGET: 8000, // Estimated tokens of history sent per turn
+    MIN_RECENT_MESSAGES: 4, // Always sent verbatim, never summarized
+    MIN_FOLLOW_UPS: 2, // Suggested follow-up questions per answer
+    MAX_FOLLOW_UPS: 4,
+    MAX_FOLLOW_UP_LENGTH: 80, // characters
+    OVERVIEW_REFRESH_MESSAGES: 6, // Regenerate the History title/summary after this many new messages
+  },
+
+  // Token usage & cost accounting (see usageService.ts)
+  USAGE: {
+    // USD per 1M tokens; models not listed (e.g. local models) count as free
+    PRICES: {
+      'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+      'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+      'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+      'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+      'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    } as Record<string, { input: number; output: number }>,
+    // Soft limits in tokens per user (0 = no limit)
+    DAILY_TOKEN_LIMIT: envNumber(process.env.EXPO_PUBLIC_DAILY_TOKEN_LIMIT, 300000),
+    MONTHLY_TOKEN_LIMIT: envNumber(process.env.EXPO_PUBLIC_MONTHLY_TOKEN_LIMIT, 5000000),
+    // 'warn' shows a warning and still sends, 'block' stops sending until the period resets
+    LIMIT_ACTION: (process.env.EXPO_PUBLIC_USAGE_LIMIT_ACTION === 'block' ? 'block' : 'warn') as 'warn' | 'block',
+    WARN_RATIO: 0.8, // "Near the limit" from 80%
+  },
+
+  // Prompt-injection defenses (see promptSafety.ts)
+  SECURITY: {
+    MAX_TOOL_TEXT_LENGTH: 1000, // Max characters per text field in a tool result
+    MAX_ATTACHMENT_TEXT_LENGTH: 30000, // Max characters of a text attachment sent to the model
   },
 
   // UI
@@ -46,6 +135,7 @@ export const FeatureFlags = {
   enableExport: false, // Coming soon
   enableSharing: false, // Coming soon
   enableOfflineMode: false, // Coming soon
+  enableFactCheck: true, // Check numbers in answers against tool data (factCheck.ts)
 };
 
 // API Endpoints (if using backend)
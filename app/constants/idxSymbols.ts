@@ -0,0 +1,58 @@
+/**
+ * IDX Symbol Directory (seed)
+ *
+ * Frequently discussed Indonesia Stock Exchange listings, so common tickers
+ * and brand names resolve to their FMP symbol (<TICKER>.JK) without a search
+ * call. Listings found through search are added to the cached directory
+ * at runtime (see symbolResolver.ts).
+ */
+
+export interface IdxSymbolSeed {
+  ticker: string;
+  name: string;
+  /** Lowercase brand names / abbreviations users type, e.g. "bca" */
+  aliases?: string[];
+}
+
+export const IDX_EXCHANGE = 'IDX';
+export const IDX_CURRENCY = 'IDR';
+export const IDX_SUFFIX = '.JK';
+
+export const IDX_SYMBOLS: IdxSymbolSeed[] = [
+  { ticker: 'BBCA', name: 'Bank Central Asia Tbk', aliases: ['bca'] },
+  { ticker: 'BBRI', name: 'Bank Rakyat Indonesia (Persero) Tbk', aliases: ['bri'] },
+  { ticker: 'BMRI', name: 'Bank Mandiri (Persero) Tbk', aliases: ['mandiri'] },
+  { ticker: 'BBNI', name: 'Bank Negara Indonesia (Persero) Tbk', aliases: ['bni'] },
+  { ticker: 'BRIS', name: 'Bank Syariah Indonesia Tbk', aliases: ['bsi'] },
+  { ticker: 'ARTO', name: 'Bank Jago Tbk', aliases: ['jago', 'bank jago'] },
+  { ticker: 'TLKM', name: 'Telkom Indonesia (Persero) Tbk', aliases: ['telkom'] },
+  { ticker: 'ISAT', name: 'Indosat Tbk', aliases: ['indosat'] },
+  { ticker: 'ASII', name: 'Astra International Tbk', aliases: ['astra'] },
+  { ticker: 'UNTR', name: 'United Tractors Tbk' },
+  { ticker: 'GOTO', name: 'GoTo Gojek Tokopedia Tbk', aliases: ['gojek', 'tokopedia'] },
+  { ticker: 'BUKA', name: 'Bukalapak.com Tbk', aliases: ['bukalapak'] },
+  { ticker: 'EMTK', name: 'Elang Mahkota Teknologi Tbk', aliases: ['emtek'] },
+  { ticker: 'UNVR', name: 'Unilever Indonesia Tbk', aliases: ['unilever'] },
+  { ticker: 'ICBP', name: 'Indofood CBP Sukses Makmur Tbk', aliases: ['indofood cbp'] },
+  { ticker: 'INDF', name: 'Indofood Sukses Makmur Tbk', aliases: ['indofood'] },
+  { ticker: 'KLBF', name: 'Kalbe Farma Tbk', aliases: ['kalbe'] },
+  { ticker: 'HMSP', name: 'H.M. Sampoerna Tbk', aliases: ['sampoerna'] },
+  { ticker: 'GGRM', name: 'Gudang Garam Tbk' },
+  { ticker: 'CPIN', name: 'Charoen Pokphand Indonesia Tbk' },
+  { ticker: 'AMRT', name: 'Sumber Alfaria Trijaya Tbk', aliases: ['alfamart'] },
+  { ticker: 'MAPI', name: 'Mitra Adiperkasa Tbk' },
+  { ticker: 'SMGR', name: 'Semen Indonesia (Persero) Tbk' },
+  { ticker: 'JSMR', name: 'Jasa Marga (Persero) Tbk' },
+  { ticker: 'ADRO', name: 'Alamtri Resources Indonesia Tbk', aliases: ['adaro'] },
+  { ticker: 'PTBA', name: 'Bukit Asam Tbk' },
+  { ticker: 'ANTM', name: 'Aneka Tambang Tbk', aliases: ['antam'] },
+  { ticker: 'INCO', name: 'Vale Indonesia Tbk' },
+  { ticker: 'MDKA', name: 'Merdeka Copper Gold Tbk' },
+  { ticker: 'AMMN', name: 'Amman Mineral Internasional Tbk', aliases: ['amman'] },
+  { ticker: 'MEDC', name: 'Medco Energi Internasional Tbk', aliases: ['medco'] },
+  { ticker: 'PGAS', name: 'Perusahaan Gas Negara Tbk', aliases: ['pgn'] },
+  { ticker: 'AKRA', name: 'AKR Corporindo Tbk' },
+  { ticker: 'TPIA', name: 'Chandra Asri Pacific Tbk', aliases: ['chandra asri'] },
+  { ticker: 'BREN', name: 'Barito Renewables Energy Tbk' },
+  { ticker: 'INKP', name: 'Indah Kiat Pulp & Paper Tbk' },
+];
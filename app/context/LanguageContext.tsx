@@ -0,0 +1,65 @@
+/**
+ * Language Context Provider
+ * Provides the UI language and translate function throughout the app
+ */
+
+import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { DEFAULT_LANGUAGE, setLanguage as setI18nLanguage, translate, TranslationKey } from '../i18n';
+import { storageService } from '../services/storageService';
+import { Language } from '../types';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: TranslationKey, params?: Record<string, string | number>) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+interface LanguageProviderProps {
+  children: ReactNode;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+  useEffect(() => {
+    // Restore the stored language preference
+    storageService.getPreferences().then((prefs) => {
+      setI18nLanguage(prefs.language);
+      setLanguageState(prefs.language);
+    });
+  }, []);
+
+  const setLanguage = async (next: Language) => {
+    setI18nLanguage(next);
+    setLanguageState(next);
+    try {
+      await storageService.savePreferences({ language: next });
+    } catch (error) {
+      console.error('Save language error:', error);
+    }
+  };
+
+  const value: LanguageContextType = {
+    language,
+    setLanguage,
+    t: (key, params) => translate(key, params, language),
+  };
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useLanguage = (): LanguageContextType => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+export default LanguageContext;
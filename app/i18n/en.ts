@@ -0,0 +1,171 @@
+/**
+ * English message catalog
+ */
+
+import { TranslationKey } from './id';
+
+export const en: Record<TranslationKey, string> = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.error': 'Error',
+  'common.success': 'Success',
+  'common.delete': 'Delete',
+  'common.loading': 'Loading...',
+  'common.logout': 'Logout',
+  'common.logoutConfirm': 'Are you sure you want to log out?',
+  'common.logoutFailed': 'Logout failed. Please try again.',
+
+  // Chat screen
+  'chat.subtitle': 'Financial Advisor',
+  'chat.greeting': 'Hi, {name}',
+  'chat.welcome': 'Hello! I am **StockPocket AI**. \n\nI can help you analyze stock movements, current macroeconomic trends, or read company financial reports (PDF/Excel/CSV). \n\nWhat would you like to discuss today?',
+  'chat.analyzing': 'Analyzing...',
+  'chat.maxFilesTitle': 'Maximum 3 files',
+  'chat.maxFilesMessage': 'You have reached the maximum number of attachments.',
+  'chat.invalidFile': 'Invalid File',
+  'chat.attachFailed': 'Failed to load the file. Please try again.',
+  'chat.usageLimitTitle': 'Usage Limit',
+  'chat.usageBlocked': 'The {period} token limit ({limit} tokens) has been reached. You can send new messages again in the next period.',
+  'chat.usageExceeded': 'The {period} token limit ({limit} tokens) has been exceeded. Your message is still sent.',
+  'chat.usageNearLimit': 'You have used {percent}% of your {period} token limit ({limit} tokens).',
+  'chat.usagePeriod.daily': 'daily',
+  'chat.usagePeriod.monthly': 'monthly',
+  'chat.noResponse': 'Sorry, I could not generate a response right now.',
+  'chat.untitled': 'New Chat',
+
+  // Input box
+  'input.placeholder': 'Ask about stocks, the economy, or financial analysis...',
+  'input.filesReady': '{count} file(s) ready',
+  'input.attach': 'Attach',
+  'input.card': 'Card',
+  'input.stop': 'Stop',
+  'input.send': 'Send',
+  'input.editing': 'Editing message — the new answer is kept as a branch',
+  'input.cancelEdit': 'Cancel',
+
+  // Message bubble
+  'message.you': 'You',
+  'message.sources': 'References:',
+  'message.searchSources': 'Google Search sources:',
+  'message.retry': 'Try again',
+  'message.dataUsed': 'Data used ({count})',
+  'message.regenerate': 'Regenerate',
+  'message.edit': 'Edit',
+  'message.branch': '{index}/{total}',
+  'message.usage': '{tokens} tokens · ~US${cost}',
+  'message.factVerified': '(data: {value})',
+  'message.staleData': 'Stale as of {date} {time}',
+  'message.quotaLimited': 'Data limit reached, showing cached data from {date} {time}',
+  'message.factCheck': '{count} number(s) differ from the market data fetched. The verified value is shown next to each.',
+
+  // Data API limits (quota banner)
+  'quota.limited': 'The {provider} data limit is reached until {date} {time}. Answers use cached data.',
+  'quota.paidOnly': 'This {provider} data is only available on paid plans: {endpoints}. Answers use cached data.',
+
+  // AI errors (by AiErrorKind)
+  'error.auth': 'The API key is invalid or not configured. Please check the API key settings in your .env file.',
+  'error.quota': 'API quota exhausted or too many requests. Please try again later.',
+  'error.network': 'Could not reach the server. Please check your internet connection.',
+  'error.timeout': 'The AI service took too long to respond. Please try again.',
+  'error.safety': 'This request was blocked by the AI safety filter. Try rephrasing your question.',
+  'error.invalid_tool_result': 'Data from an external source was invalid. Please try again.',
+  'error.cancelled': 'Request cancelled.',
+  'error.unknown': 'Sorry, something went wrong while contacting the AI service.',
+  'error.notConfigured.gemini': 'The Gemini API key is not configured. Please set EXPO_PUBLIC_GEMINI_API_KEY in .env',
+  'error.notConfigured.openai': 'The LLM API key / endpoint is not configured. Please check EXPO_PUBLIC_OPENAI_BASE_URL in .env',
+
+  // Tool results and errors (toolRegistry.ts, financialTools.ts)
+  'tool.invalidText': 'Argument "{key}" must be text',
+  'tool.invalidOption': 'Argument "{key}" must be one of: {options}',
+  'tool.unknown': 'Tool "{name}" is not registered',
+  'tool.timeout': 'Tool "{name}" exceeded its {ms}ms time limit',
+  'tool.failed': 'Tool execution failed',
+  'tool.invalidResult': 'The result of tool "{name}" cannot be sent to the model',
+  'tool.dataLimit': 'Daily API data limit reached and no cached data is available',
+  'tool.unavailable': '{label} is not available',
+  'tool.staleNote': 'Fetching fresh data failed; this is cached data as of {date}. Tell the user the date of this data.',
+  'tool.quotaNote': 'API data limit reached; this is cached data as of {date}. Tell the user the data limit was reached and the date of this data.',
+  'tool.label.quote': 'Quote for {ticker}',
+  'tool.label.profile': 'Profile for {ticker}',
+  'tool.label.keyMetrics': 'Key metrics for {ticker}',
+  'tool.count.items': '{count} items',
+  'tool.count.fields': '{count} fields',
+  'tool.count.news': '{count} articles',
+  'tool.count.prices': '{count} days of prices',
+  'tool.count.results': '{count} search results',
+  'tool.count.stocks': '{count} stocks',
+  'tool.count.points': '{count} data points',
+  'tool.count.statements': '{count} periods, latest {date}',
+  'tool.none.items': 'No data',
+  'tool.none.news': 'No news',
+  'tool.none.prices': 'No price data',
+  'tool.none.results': 'No search results',
+  'tool.none.stocks': 'No stocks',
+  'tool.none.points': 'No data points',
+  'tool.none.statements': 'No statements',
+
+  // Analysis card
+  'analysis.buy': 'BUY',
+  'analysis.hold': 'HOLD',
+  'analysis.sell': 'SELL',
+  'analysis.confidence': 'Confidence {value}%',
+  'analysis.thesis': 'Thesis',
+  'analysis.valuation': 'Valuation',
+  'analysis.risks': 'Risks',
+  'analysis.catalysts': 'Catalysts',
+
+  // Persona selector / settings
+  'settings.summary': '{persona} · {risk} risk',
+  'settings.persona': 'Analysis Mode',
+  'settings.riskProfile': 'Risk Profile',
+  'settings.language': 'Language',
+  'persona.general': 'General',
+  'persona.general.description': 'Balanced analysis for any topic',
+  'persona.value': 'Value Investor',
+  'persona.value.description': 'Focus on valuation and margin of safety',
+  'persona.dividend': 'Dividend Income',
+  'persona.dividend.description': 'Focus on stable dividend income',
+  'persona.technical': 'Technical Trader',
+  'persona.technical.description': 'Focus on price trend, momentum and volume',
+  'persona.beginner': 'Beginner Education',
+  'persona.beginner.description': 'Simple explanations for new investors',
+  'risk.conservative': 'Conservative',
+  'risk.moderate': 'Moderate',
+  'risk.aggressive': 'Aggressive',
+
+  // History screen
+  'history.title': 'Chat History',
+  'history.count': '{count} chat(s)',
+  'history.countWithName': '{count} chats • {name}',
+  'history.loadFailed': 'Failed to load chat history',
+  'history.openFailed': 'Failed to open chat',
+  'history.deleteTitle': 'Delete Chat',
+  'history.deleteConfirm': 'Are you sure you want to delete this chat?',
+  'history.deleteFailed': 'Failed to delete chat',
+  'history.deleteAllTitle': 'Delete All Chats',
+  'history.deleteAllConfirm': 'Delete all {count} chats? This cannot be undone.',
+  'history.deleteAll': 'Delete All',
+  'history.deleteAllDone': 'All chats have been deleted',
+  'history.deleteAllFailed': 'Failed to delete all chats',
+  'history.noMessages': 'No messages yet',
+  'history.messageCount': '{count} messages',
+  'history.tokens': '{tokens} tokens',
+  'history.emptyTitle': 'No chats yet',
+  'history.emptySubtitle': 'Start a new conversation to get financial advisor recommendations',
+
+  // Login screen
+  'login.tagline': 'Financial Advisor AI Assistant',
+  'login.welcomeTitle': 'Welcome!',
+  'login.welcomeDescription': 'Sign in to save your chat history and access it from any device',
+  'login.google': 'Sign in with Google',
+  'login.terms': 'By signing in, you agree to our Terms & Conditions and Privacy Policy',
+  'login.featureSync': 'Sync data across devices',
+  'login.featureSecure': 'Secure & encrypted data',
+  'login.featureHistory': 'Access your chat history anytime',
+  'login.failed': 'Login failed. Please try again.',
+  'login.googleFailed': 'Google login failed. Please try again.',
+  'login.popupBlockedTitle': 'Popup Blocked',
+  'login.popupBlocked': 'Allow popups in your browser to sign in with Google.',
+};
+
+export default en;
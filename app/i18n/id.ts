@@ -0,0 +1,172 @@
+/**
+ * Indonesian message catalog (default language)
+ * Keys are shared with en.ts; placeholders use {name} syntax.
+ */
+
+export const id = {
+  // Common
+  'common.cancel': 'Batal',
+  'common.error': 'Error',
+  'common.success': 'Berhasil',
+  'common.delete': 'Hapus',
+  'common.loading': 'Memuat...',
+  'common.logout': 'Logout',
+  'common.logoutConfirm': 'Apakah Anda yakin ingin keluar?',
+  'common.logoutFailed': 'Gagal logout. Silakan coba lagi.',
+
+  // Chat screen
+  'chat.subtitle': 'Financial Advisor',
+  'chat.greeting': 'Hi, {name}',
+  'chat.welcome': 'Halo! Saya adalah **StockPocket AI**. \n\nSaya bisa membantu Anda menganalisa pergerakan saham, tren makro ekonomi terkini, atau membaca laporan keuangan perusahaan (PDF/Excel/CSV). \n\nApa yang ingin Anda diskusikan hari ini?',
+  'chat.analyzing': 'Menganalisis...',
+  'chat.maxFilesTitle': 'Maksimal 3 file',
+  'chat.maxFilesMessage': 'Anda sudah mencapai batas maksimal file yang dapat dilampirkan.',
+  'chat.invalidFile': 'File Tidak Valid',
+  'chat.attachFailed': 'Gagal memuat file. Silakan coba lagi.',
+  'chat.usageLimitTitle': 'Batas Penggunaan',
+  'chat.usageBlocked': 'Batas token {period} ({limit} token) sudah tercapai. Pesan baru bisa dikirim lagi pada periode berikutnya.',
+  'chat.usageExceeded': 'Batas token {period} ({limit} token) sudah terlampaui. Pesan tetap dikirim.',
+  'chat.usageNearLimit': 'Penggunaan token {period} sudah {percent}% dari batas ({limit} token).',
+  'chat.usagePeriod.daily': 'harian',
+  'chat.usagePeriod.monthly': 'bulanan',
+  'chat.noResponse': 'Maaf, saya tidak dapat menghasilkan respon saat ini.',
+  'chat.untitled': 'Chat Baru',
+
+  // Input box
+  'input.placeholder': 'Tanya tentang saham, ekonomi, atau analisis keuangan...',
+  'input.filesReady': '{count} file siap',
+  'input.attach': 'Lampirkan',
+  'input.card': 'Kartu',
+  'input.stop': 'Berhenti',
+  'input.send': 'Kirim',
+  'input.editing': 'Mengedit pesan — jawaban baru disimpan sebagai cabang',
+  'input.cancelEdit': 'Batal',
+
+  // Message bubble
+  'message.you': 'Anda',
+  'message.sources': 'Sumber Referensi:',
+  'message.searchSources': 'Sumber Google Search:',
+  'message.retry': 'Coba lagi',
+  'message.dataUsed': 'Data yang digunakan ({count})',
+  'message.regenerate': 'Buat ulang',
+  'message.edit': 'Edit',
+  'message.branch': '{index}/{total}',
+  'message.usage': '{tokens} token · ~US${cost}',
+  'message.factVerified': '(data: {value})',
+  'message.staleData': 'Data lama per {date} {time}',
+  'message.quotaLimited': 'Batas data tercapai, menampilkan data cache per {date} {time}',
+  'message.factCheck': '{count} angka berbeda dari data pasar yang diambil. Nilai terverifikasi ditampilkan di sebelahnya.',
+
+  // Data API limits (quota banner)
+  'quota.limited': 'Batas data {provider} tercapai hingga {date} {time}. Jawaban memakai data cache.',
+  'quota.paidOnly': 'Data {provider} berikut hanya tersedia di paket berbayar: {endpoints}. Jawaban memakai data cache.',
+
+  // AI errors (by AiErrorKind)
+  'error.auth': 'API Key tidak valid atau belum dikonfigurasi. Silakan cek konfigurasi API Key di file .env',
+  'error.quota': 'Kuota API habis atau terlalu banyak permintaan. Silakan coba lagi nanti.',
+  'error.network': 'Gagal terhubung ke server. Periksa koneksi internet Anda.',
+  'error.timeout': 'Layanan AI terlalu lama merespons. Silakan coba lagi.',
+  'error.safety': 'Permintaan ini diblokir oleh filter keamanan AI. Coba ubah pertanyaan Anda.',
+  'error.invalid_tool_result': 'Data dari sumber eksternal tidak valid. Silakan coba lagi.',
+  'error.cancelled': 'Permintaan dibatalkan.',
+  'error.unknown': 'Maaf, terjadi kesalahan saat menghubungkan ke layanan AI.',
+  'error.notConfigured.gemini': 'API Key Gemini tidak dikonfigurasi. Silakan set EXPO_PUBLIC_GEMINI_API_KEY di .env',
+  'error.notConfigured.openai': 'API Key / endpoint LLM tidak dikonfigurasi. Silakan cek EXPO_PUBLIC_OPENAI_BASE_URL di .env',
+
+  // Tool results and errors (toolRegistry.ts, financialTools.ts)
+  'tool.invalidText': 'Argument "{key}" wajib berupa teks',
+  'tool.invalidOption': 'Argument "{key}" harus salah satu dari: {options}',
+  'tool.unknown': 'Tool "{name}" tidak terdaftar',
+  'tool.timeout': 'Tool "{name}" melebihi batas waktu {ms}ms',
+  'tool.failed': 'Eksekusi tool gagal',
+  'tool.invalidResult': 'Hasil tool "{name}" tidak dapat dikirim ke model',
+  'tool.dataLimit': 'Batas data API harian tercapai dan belum ada data cache',
+  'tool.unavailable': '{label} tidak tersedia',
+  'tool.staleNote': 'Data terbaru gagal diambil; ini data cache per {date}. Sebutkan tanggal data ini ke user.',
+  'tool.quotaNote': 'Batas data API tercapai; ini data cache per {date}. Sampaikan ke user bahwa batas data tercapai dan sebutkan tanggal data ini.',
+  'tool.label.quote': 'Quote untuk {ticker}',
+  'tool.label.profile': 'Profil untuk {ticker}',
+  'tool.label.keyMetrics': 'Key metrics untuk {ticker}',
+  'tool.count.items': '{count} data',
+  'tool.count.fields': '{count} field',
+  'tool.count.news': '{count} berita',
+  'tool.count.prices': '{count} hari data harga',
+  'tool.count.results': '{count} hasil pencarian',
+  'tool.count.stocks': '{count} saham',
+  'tool.count.points': '{count} titik data',
+  'tool.count.statements': '{count} periode, terbaru {date}',
+  'tool.none.items': 'Tidak ada data',
+  'tool.none.news': 'Tidak ada berita',
+  'tool.none.prices': 'Tidak ada data harga',
+  'tool.none.results': 'Tidak ada hasil pencarian',
+  'tool.none.stocks': 'Tidak ada saham',
+  'tool.none.points': 'Tidak ada titik data',
+  'tool.none.statements': 'Tidak ada laporan',
+
+  // Analysis card
+  'analysis.buy': 'BELI',
+  'analysis.hold': 'TAHAN',
+  'analysis.sell': 'JUAL',
+  'analysis.confidence': 'Keyakinan {value}%',
+  'analysis.thesis': 'Tesis',
+  'analysis.valuation': 'Valuasi',
+  'analysis.risks': 'Risiko',
+  'analysis.catalysts': 'Katalis',
+
+  // Persona selector / settings
+  'settings.summary': '{persona} · Risiko {risk}',
+  'settings.persona': 'Mode Analisis',
+  'settings.riskProfile': 'Profil Risiko',
+  'settings.language': 'Bahasa',
+  'persona.general': 'Umum',
+  'persona.general.description': 'Analisis seimbang untuk semua topik',
+  'persona.value': 'Value Investor',
+  'persona.value.description': 'Fokus valuasi dan margin of safety',
+  'persona.dividend': 'Dividen',
+  'persona.dividend.description': 'Fokus pendapatan dividen yang stabil',
+  'persona.technical': 'Trader Teknikal',
+  'persona.technical.description': 'Fokus tren harga, momentum, dan volume',
+  'persona.beginner': 'Edukasi Pemula',
+  'persona.beginner.description': 'Penjelasan sederhana untuk investor baru',
+  'risk.conservative': 'Konservatif',
+  'risk.moderate': 'Moderat',
+  'risk.aggressive': 'Agresif',
+
+  // History screen
+  'history.title': 'Chat History',
+  'history.count': '{count} chat',
+  'history.countWithName': '{count} chat • {name}',
+  'history.loadFailed': 'Gagal memuat chat history',
+  'history.openFailed': 'Gagal membuka chat',
+  'history.deleteTitle': 'Hapus Chat',
+  'history.deleteConfirm': 'Yakin ingin menghapus chat ini?',
+  'history.deleteFailed': 'Gagal menghapus chat',
+  'history.deleteAllTitle': 'Hapus Semua Chat',
+  'history.deleteAllConfirm': 'Yakin ingin menghapus semua {count} chat? Tindakan ini tidak dapat dibatalkan.',
+  'history.deleteAll': 'Hapus Semua',
+  'history.deleteAllDone': 'Semua chat telah dihapus',
+  'history.deleteAllFailed': 'Gagal menghapus semua chat',
+  'history.noMessages': 'Belum ada pesan',
+  'history.messageCount': '{count} pesan',
+  'history.tokens': '{tokens} token',
+  'history.emptyTitle': 'Belum ada chat',
+  'history.emptySubtitle': 'Mulai percakapan baru untuk mendapatkan rekomendasi financial advisor',
+
+  // Login screen
+  'login.tagline': 'Financial Advisor AI Assistant',
+  'login.welcomeTitle': 'Selamat Datang!',
+  'login.welcomeDescription': 'Login untuk menyimpan riwayat chat Anda dan mengakses dari perangkat manapun',
+  'login.google': 'Masuk dengan Google',
+  'login.terms': 'Dengan masuk, Anda menyetujui Syarat & Ketentuan dan Kebijakan Privasi kami',
+  'login.featureSync': 'Sync data antar perangkat',
+  'login.featureSecure': 'Data aman & terenkripsi',
+  'login.featureHistory': 'Akses riwayat chat kapanpun',
+  'login.failed': 'Gagal login. Silakan coba lagi.',
+  'login.googleFailed': 'Gagal login dengan Google. Silakan coba lagi.',
+  'login.popupBlockedTitle': 'Popup Diblokir',
+  'login.popupBlocked': 'Izinkan popup di browser Anda untuk login dengan Google.',
+};
+
+export type TranslationKey = keyof typeof id;
+
+export default id;
@@ -0,0 +1,58 @@
+/**
+ * i18n
+ *
+ * Message catalogs for Indonesian (default) and English, plus the current
+ * language shared by UI (via LanguageContext) and services (news queries,
+ * system prompt, helpers.formatDate/formatCurrency).
+ */
+
+import { Language } from '../types';
+import { en } from './en';
+import { id, TranslationKey } from './id';
+
+export type { TranslationKey };
+
+export const DEFAULT_LANGUAGE: Language = 'id';
+
+export const LANGUAGES: Record<Language, { label: string; locale: string }> = {
+  id: { label: 'Indonesia', locale: 'id-ID' },
+  en: { label: 'English', locale: 'en-US' },
+};
+
+const CATALOGS: Record<Language, Record<TranslationKey, string>> = { id, en };
+
+let currentLanguage: Language = DEFAULT_LANGUAGE;
+
+export const getLanguage = (): Language => currentLanguage;
+
+/**
+ * Set the current language (LanguageContext persists it as a preference)
+ */
+export const setLanguage = (language: Language): void => {
+  currentLanguage = CATALOGS[language] ? language : DEFAULT_LANGUAGE;
+};
+
+/**
+ * BCP 47 locale of the current language, for Intl / toLocale* formatting
+ */
+export const getLocale = (language: Language = currentLanguage): string =>
+  LANGUAGES[language].locale;
+
+/**
+ * Look up a message and fill {placeholders}. Falls back to Indonesian,
+ * then to the key itself.
+ */
+export const translate = (
+  key: TranslationKey,
+  params: Record<string, string | number> = {},
+  language: Language = currentLanguage
+): string => {
+  const template = CATALOGS[language]?.[key] ?? id[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
+
+export const t = translate;
+
+export default translate;
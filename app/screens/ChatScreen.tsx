@@ -2,41 +2,84 @@
  * Chat Screen - Updated to follow finAdvisor Architecture
  * 
  * Features:
- * - Uses geminiService.generateFinancialAdvice() with function calling
+ * - Uses geminiService.streamFinancialAdvice() with function calling
+ * - Streams the assistant reply as it arrives, with a stop button
+ * - Persona (per session) and risk profile (per user) shape the system prompt
+ * - Failed replies show a typed error with a retry button instead of a fake answer
+ * - Regenerate / edit fork the conversation; branches are kept and switchable
+ * - Suggested follow-up questions as chips above the input box
+ * - AI-generated session title/summary (History) after the first exchange
+ * - Token usage per reply and per session, with daily/monthly soft limits
+ * - Banner while a data API (FMP, NewsAPI) is limited and answers use cached data
  * - Properly handles file attachments as inline data
  * - Displays grounding sources from Google Search
  * - No manual context injection - let Gemini tools handle it
  */
 
 import { useRouter } from 'expo-router';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert, FlatList, KeyboardAvoidingView, Platform, SafeAreaView, StyleSheet, Text, View
 } from 'react-native';
 
 // Import Components & Services
+import { FollowUpChips } from '../components/FollowUpChips';
 import { GradientContainer } from '../components/GradientContainer';
 import { Header } from '../components/Header';
 import { InputBox } from '../components/InputBox';
 import { MessageBubble } from '../components/MessageBubble';
+import { LanguageSelector } from '../components/LanguageSelector';
+import { PersonaSelector } from '../components/PersonaSelector';
+import { QuotaBanner } from '../components/QuotaBanner';
 import { Colors, Spacing } from '../constants/theme';
 import { useAuth } from '../context/AuthContext';
+import { useLanguage } from '../context/LanguageContext';
 import { fileService } from '../services/fileService';
 import { firestoreService } from '../services/firestoreService';
+import { toAiError } from '../services/aiErrors';
 import { geminiService } from '../services/geminiService';
+import {
+  getActivePath, getBranchInfo, getLatestLeaf, getSiblings, normalizeTree, removeFromTree
+} from '../services/messageTree';
+import { DEFAULT_PERSONA, DEFAULT_RISK_PROFILE } from '../services/personas';
+import { quotaTracker } from '../services/quotaTracker';
+import { needsOverview } from '../services/sessionOverview';
 import { storageService } from '../services/storageService';
-import { Attachment, ChatSession, FileAttachment, Message } from '../types';
+import { addUsage, emptyUsage, usageService } from '../services/usageService';
+import {
+  Attachment, ChatSession, FileAttachment, Message, PersonaId, QuotaProvider, QuotaStatus, RiskProfile
+} from '../types';
+import { formatNumber } from '../utils/helpers';
+
+const QUOTA_PROVIDERS: QuotaProvider[] = ['fmp', 'newsapi'];
+
+// Current data API limits, shown in the QuotaBanner
+const loadQuotaStatuses = (): Promise<QuotaStatus[]> =>
+  Promise.all(QUOTA_PROVIDERS.map(provider => quotaTracker.getStatus(provider)));
 
 export const ChatScreen: React.FC<any> = ({ route }) => {
   const router = useRouter();
   const { isAuthenticated, signOut, getUserInfo } = useAuth();
   const userInfo = getUserInfo();
+  const { t } = useLanguage();
+  // All messages of the session (every branch); the visible branch ends at activeLeafId
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | undefined>(undefined);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
   const [loading, setLoading] = useState(false);
   const [parsing, setParsing] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState(false);
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
+  const [riskProfile, setRiskProfile] = useState<RiskProfile>(DEFAULT_RISK_PROFILE);
+  const [quotaStatuses, setQuotaStatuses] = useState<QuotaStatus[]>([]);
   const flatListRef = useRef<FlatList>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const overviewInFlightRef = useRef(false);
+  // Latest session for async work started by an earlier render (see refreshOverview)
+  const currentSessionRef = useRef<ChatSession | null>(null);
+  currentSessionRef.current = currentSession;
+  const usageWarningRef = useRef<string | null>(null);
 
   // Choose storage service based on auth status
   const storage = isAuthenticated ? firestoreService : storageService;
@@ -45,9 +88,24 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
   const welcomeMessage: Message = {
     id: 'welcome',
     role: 'assistant',
-    content: "Halo! Saya adalah **StockPocket AI**. \n\nSaya bisa membantu Anda menganalisa pergerakan saham, tren makro ekonomi terkini, atau membaca laporan keuangan perusahaan (PDF/Excel/CSV). \n\nApa yang ingin Anda diskusikan hari ini?",
+    content: t('chat.welcome'),
     timestamp: Date.now(),
   };
+  // Read by the session loader, which must not re-run when the language changes
+  const welcomeMessageRef = useRef(welcomeMessage);
+  welcomeMessageRef.current = welcomeMessage;
+
+  // Conversation tree (without the welcome message) and the branch shown
+  const treeMessages = useMemo(() => messages.filter(m => m.id !== 'welcome'), [messages]);
+  const activePath = useMemo(() => getActivePath(treeMessages, activeLeafId), [treeMessages, activeLeafId]);
+  const shownWelcome = messages.find(m => m.id === 'welcome');
+  const visibleMessages = shownWelcome ? [shownWelcome, ...activePath] : activePath;
+
+  // Follow-up suggestions of the latest reply on the shown branch
+  const lastMessage = activePath[activePath.length - 1];
+  const followUps = lastMessage?.role === 'assistant' && !lastMessage.isStreaming && !editingMessage
+    ? lastMessage.followUps || []
+    : [];
 
   // 1. Initialize Session
   useEffect(() => {
@@ -65,28 +123,37 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
         }
         
         setCurrentSession(session);
+        setActiveLeafId(session.activeLeafId);
+        setEditingMessage(null);
         
         // Set messages with welcome if empty
         if (session.messages.length === 0) {
-          setMessages([welcomeMessage]);
+          setMessages([welcomeMessageRef.current]);
         } else {
-          setMessages(session.messages);
+          setMessages(normalizeTree(session.messages));
         }
         
         setAttachments(session.attachments || []);
-        
-        // Initialize Gemini conversation
-        geminiService.initializeConversation();
       } catch (error) {
         console.error('Init session error:', error);
         // Fallback to new session
         const session = storage.createNewSession();
         setCurrentSession(session);
-        setMessages([welcomeMessage]);
+        setMessages([welcomeMessageRef.current]);
       }
     };
     init();
-  }, [route?.params?.sessionId, isAuthenticated]);
+  }, [route?.params?.sessionId, storage]);
+
+  // Load the stored risk profile (device preference)
+  useEffect(() => {
+    storageService.getPreferences().then(prefs => setRiskProfile(prefs.riskProfile));
+  }, []);
+
+  // Data API limits from earlier sessions (refreshed after every reply)
+  useEffect(() => {
+    loadQuotaStatuses().then(setQuotaStatuses);
+  }, []);
 
   // 2. Auto Scroll
   useEffect(() => {
@@ -97,18 +164,22 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
 
   // 3. Save Session in Background
   useEffect(() => {
-    if (currentSession && messages.length > 1) { // Don't save if only welcome message
+    if (currentSession && treeMessages.length > 0) { // Don't save if only welcome message
       const timer = setTimeout(async () => {
-        // Filter out welcome message for storage
-        const messagesToSave = messages.filter(m => m.id !== 'welcome');
+        // Drop in-flight and failed replies; their children are re-attached above them
+        const isTransient = (m: Message) => m.isStreaming || !!m.error;
+        const messagesToSave = removeFromTree(treeMessages, isTransient);
+        const savedLeafId = [...activePath].reverse().find(m => !isTransient(m))?.id;
         
         // Generate title from first user message if still default
         let sessionTitle = currentSession.title;
-        if (sessionTitle === 'Chat Baru' && messagesToSave.length > 0) {
+        let untitled = currentSession.untitled;
+        if (untitled && messagesToSave.length > 0) {
           const firstUserMsg = messagesToSave.find(m => m.role === 'user');
           if (firstUserMsg) {
             // Take first 50 chars of user message as title
             sessionTitle = firstUserMsg.content.slice(0, 50) + (firstUserMsg.content.length > 50 ? '...' : '');
+            untitled = false;
           }
         }
         
@@ -116,14 +187,16 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
           await storage.saveChatSession({
             ...currentSession,
             title: sessionTitle,
+            untitled,
             messages: messagesToSave,
+            activeLeafId: savedLeafId,
             attachments,
             updatedAt: Date.now()
           });
           
           // Update local session title
           if (sessionTitle !== currentSession.title) {
-            setCurrentSession(prev => prev ? { ...prev, title: sessionTitle } : null);
+            setCurrentSession(prev => prev ? { ...prev, title: sessionTitle, untitled } : null);
           }
         } catch (error) {
           console.error('Save session error:', error);
@@ -131,13 +204,46 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
       }, 1000);
       return () => clearTimeout(timer);
     }
-  }, [messages, attachments, currentSession, isAuthenticated]);
+  }, [treeMessages, activePath, attachments, currentSession, storage]);
 
-  // 4. Send Message - Following finAdvisor pattern
+  /**
+   * Check the token soft limits before a model request. Returns false when
+   * sending is blocked; warnings are shown once per level and period.
+   */
+  const checkUsageLimits = async (): Promise<boolean> => {
+    const status = await usageService.getStatus();
+    if (!status.nearLimit) return true;
+
+    const period = t(`chat.usagePeriod.${status.period}`);
+    const limit = formatNumber(status.period === 'daily' ? status.dailyLimit : status.monthlyLimit);
+
+    if (status.exceeded && status.action === 'block') {
+      Alert.alert(t('chat.usageLimitTitle'), t('chat.usageBlocked', { period, limit }));
+      return false;
+    }
+
+    const warningKey = `${status.period}:${status.exceeded ? 'exceeded' : 'near'}:${status[status.period].period}`;
+    if (usageWarningRef.current !== warningKey) {
+      usageWarningRef.current = warningKey;
+      Alert.alert(
+        t('chat.usageLimitTitle'),
+        status.exceeded
+          ? t('chat.usageExceeded', { period, limit })
+          : t('chat.usageNearLimit', { period, limit, percent: Math.floor(status.ratio * 100) })
+      );
+    }
+    return true;
+  };
+
+  // 4. Send Message - Following finAdvisor pattern (streamed)
   const handleSendMessage = async (text: string) => {
     if (!text.trim() && attachments.length === 0) return;
-    
-    setLoading(true);
+    if (!(await checkUsageLimits())) return;
+
+    // An edited question forks a sibling branch of the original
+    const editing = editingMessage;
+    const editIndex = editing ? activePath.findIndex(m => m.id === editing.id) : -1;
+    const branchPoint = editIndex >= 0 ? editIndex : activePath.length;
 
     // A. Add User Message to UI
     const userMessage: Message = {
@@ -145,60 +251,223 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
       content: text,
       role: 'user',
       timestamp: Date.now(),
-      attachments: attachments.length ? [...attachments] : undefined
+      parentId: branchPoint > 0 ? activePath[branchPoint - 1].id : null,
+      attachments: attachments.length
+        ? [...attachments]
+        : editing?.attachments
     };
+
+    // B. Messages before the fork point on the current branch are the model history
+    const historyMessages = activePath.slice(0, branchPoint);
     setMessages(prev => [...prev, userMessage]);
+    setActiveLeafId(userMessage.id);
+    setEditingMessage(null);
+
+    // C. Clear attachments after sending
+    if (attachments.length > 0) {
+      setAttachments([]);
+    }
+
+    await runAssistantTurn(userMessage, historyMessages);
+  };
+
+  /**
+   * Stream the assistant reply for a user message. On failure the reply is
+   * kept with an error state (and partial text) so it can be retried.
+   */
+  const runAssistantTurn = async (userMessage: Message, previousMessages: Message[]) => {
+    setLoading(true);
+
+    // Add an empty assistant message that grows as the stream arrives
+    const aiMessageId = (Date.now() + 1).toString();
+    const aiMessage: Message = {
+      id: aiMessageId,
+      content: '',
+      role: 'assistant',
+      timestamp: Date.now(),
+      parentId: userMessage.id,
+      isStreaming: true,
+    };
+    setMessages(prev => [...prev, aiMessage]);
+    setActiveLeafId(aiMessageId);
+
+    const updateAiMessage = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, ...changes } : m));
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      // B. Convert FileAttachments to Gemini Attachment format
-      const geminiAttachments: Attachment[] = attachments.map(file => 
+      // Convert FileAttachments to Gemini Attachment format
+      const geminiAttachments: Attachment[] = (userMessage.attachments || []).map(file =>
         fileService.convertToGeminiAttachment(file)
       );
 
-      // C. Get previous messages (excluding welcome and current)
-      const historyMessages = messages.filter(m => m.id !== 'welcome');
+      // Failed replies are not part of the conversation
+      const historyMessages = previousMessages.filter(m => m.id !== 'welcome' && !m.error);
 
-      // D. Call Gemini with function calling (finAdvisor pattern)
+      // Stream Gemini response with function calling (finAdvisor pattern)
       // No manual context injection - Gemini tools handle stock/news fetching
-      const response = await geminiService.generateFinancialAdvice(
+      const response = await geminiService.streamFinancialAdvice(
         historyMessages,
-        text,
-        geminiAttachments
+        userMessage.content,
+        geminiAttachments,
+        {
+          signal: controller.signal,
+          summary: currentSession?.summary,
+          structured: analysisMode,
+          persona: currentSession?.persona,
+          riskProfile,
+          onChunk: (partial) => updateAiMessage({ content: partial }),
+        }
       );
 
-      // E. Add AI Response to UI with sources
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: response.text,
-        role: 'assistant',
-        timestamp: Date.now(),
-        sources: response.sources // Grounding sources from Google Search
-      };
-      setMessages(prev => [...prev, aiMessage]);
-
-      // F. Clear attachments after sending
-      if (attachments.length > 0) {
-        setAttachments([]);
+      // Keep the rolling summary of older turns on the session
+      if (response.summary && response.summary !== currentSession?.summary) {
+        setCurrentSession(prev => prev ? { ...prev, summary: response.summary } : prev);
       }
 
-    } catch (err: any) {
+      // Add this turn's tokens to the session total
+      setCurrentSession(prev => prev
+        ? { ...prev, usage: addUsage(prev.usage || emptyUsage(), response.usage) }
+        : prev);
+
+      // Finalize AI message with sources; drop it if stopped before any text arrived
+      if (response.aborted && !response.text) {
+        setMessages(prev => prev.filter(m => m.id !== aiMessageId));
+        setActiveLeafId(userMessage.id);
+      } else {
+        updateAiMessage({
+          content: response.text,
+          sources: response.sources, // Grounding sources from Google Search
+          analysis: response.analysis, // Structured card (analysis mode only)
+          followUps: response.followUps.length > 0 ? response.followUps : undefined, // Follow-up chips
+          toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined, // "Data yang digunakan" panel
+          route: response.route, // Google Search grounding or tools
+          usage: response.usage, // Tokens and estimated cost
+          factCheck: response.factCheck, // Numbers that differ from tool data
+          isStreaming: false,
+        });
+
+        // Title/summary for History, in the background
+        refreshOverview([...previousMessages, userMessage, { ...aiMessage, content: response.text }]);
+      }
+
+    } catch (err) {
       console.error('Send Message Error:', err);
-      Alert.alert(
-        'Error',
-        err.message || 'Gagal mengirim pesan. Silakan coba lagi.'
-      );
-      
-      // Remove failed user message
-      setMessages(prev => prev.filter(m => m.id !== userMessage.id));
+      // Keep any partial text and show the error (with retry) in the bubble
+      updateAiMessage({
+        isStreaming: false,
+        error: toAiError(err).toMessageError(),
+      });
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
+      loadQuotaStatuses().then(setQuotaStatuses);
+    }
+  };
+
+  /**
+   * Ask the model for a session title, summary and tickers after the first
+   * exchange and again as the chat grows (see sessionOverview.ts)
+   */
+  const refreshOverview = async (branch: Message[]) => {
+    const session = currentSessionRef.current;
+    if (!session || overviewInFlightRef.current || !needsOverview(session, branch.length)) return;
+
+    overviewInFlightRef.current = true;
+    try {
+      const result = await geminiService.generateSessionOverview(branch);
+      if (!result) return;
+
+      // Keep an overview generated meanwhile for a longer branch
+      const isCurrent = (prev: ChatSession) =>
+        prev.id === session.id && (prev.overview?.messageCount ?? 0) <= branch.length;
+      setCurrentSession(prev => prev && isCurrent(prev) ? {
+        ...prev,
+        title: result.title,
+        untitled: false,
+        overview: {
+          summary: result.summary,
+          tickers: result.tickers,
+          messageCount: branch.length,
+          generatedAt: Date.now(),
+        },
+      } : prev);
+    } finally {
+      overviewInFlightRef.current = false;
+    }
+  };
+
+  // Retry a failed reply: drop it and run the turn again for its user message
+  const handleRetry = async (failedMessage: Message) => {
+    if (loading) return;
+
+    const index = activePath.findIndex(m => m.id === failedMessage.id);
+    const userMessage = activePath.slice(0, index).reverse().find(m => m.role === 'user');
+    if (index < 0 || !userMessage) return;
+    if (!(await checkUsageLimits())) return;
+
+    const previousMessages = activePath.slice(0, activePath.indexOf(userMessage));
+    setMessages(prev => removeFromTree(prev, m => m.id === failedMessage.id));
+    await runAssistantTurn(userMessage, previousMessages);
+  };
+
+  // Regenerate a reply: the new answer becomes a sibling branch of the old one
+  const handleRegenerate = async (assistantMessage: Message) => {
+    if (loading) return;
+
+    const index = activePath.findIndex(m => m.id === assistantMessage.parentId);
+    const userMessage = activePath[index];
+    if (index < 0 || userMessage.role !== 'user') return;
+    if (!(await checkUsageLimits())) return;
+
+    setEditingMessage(null);
+    await runAssistantTurn(userMessage, activePath.slice(0, index));
+  };
+
+  // Edit a question: the input is prefilled and sending forks a new branch
+  const handleEdit = (userMessage: Message) => {
+    if (loading) return;
+    setEditingMessage(userMessage);
+  };
+
+  // Show the neighbouring sibling branch (and its latest continuation)
+  const handleSwitchBranch = (message: Message, offset: number) => {
+    if (loading) return;
+
+    const siblings = getSiblings(treeMessages, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+    if (!target) return;
+
+    setEditingMessage(null);
+    setActiveLeafId(getLatestLeaf(treeMessages, target.id));
+  };
+
+  // Stop the in-flight response and keep the partial text
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Persona is saved with the session (on the next background save)
+  const handlePersonaChange = (persona: PersonaId) => {
+    setCurrentSession(prev => prev ? { ...prev, persona } : prev);
+  };
+
+  const handleRiskProfileChange = async (profile: RiskProfile) => {
+    setRiskProfile(profile);
+    try {
+      await storageService.savePreferences({ riskProfile: profile });
+    } catch (error) {
+      console.error('Save preferences error:', error);
     }
   };
 
   // 5. Attach File
   const handleAttachFile = async () => {
     if (attachments.length >= 3) {
-      Alert.alert('Maksimal 3 file', 'Anda sudah mencapai batas maksimal file yang dapat dilampirkan.');
+      Alert.alert(t('chat.maxFilesTitle'), t('chat.maxFilesMessage'));
       return;
     }
 
@@ -211,7 +480,7 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
         // Validate file
         const validation = fileService.validateFile(file);
         if (!validation.valid) {
-          Alert.alert('File Tidak Valid', validation.error);
+          Alert.alert(t('chat.invalidFile'), validation.error);
           return;
         }
 
@@ -220,7 +489,7 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
       }
     } catch (error) {
       console.error('Attach file error:', error);
-      Alert.alert('Error', 'Gagal memuat file. Silakan coba lagi.');
+      Alert.alert(t('common.error'), t('chat.attachFailed'));
     } finally {
       setParsing(false);
     }
@@ -234,8 +503,9 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
   // 7. New Chat
   const handleNewChat = async () => {
     // Clear current state
-    geminiService.clearHistory();
     setMessages([welcomeMessage]);
+    setActiveLeafId(undefined);
+    setEditingMessage(null);
     setAttachments([]);
     
     // Create new session
@@ -254,7 +524,7 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
   const handleLogout = () => {
     if (Platform.OS === 'web') {
       // Web: use window.confirm
-      const confirmed = window.confirm('Apakah Anda yakin ingin keluar?');
+      const confirmed = window.confirm(t('common.logoutConfirm'));
       if (confirmed) {
         signOut()
           .then(() => {
@@ -262,18 +532,18 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
           })
           .catch((error) => {
             console.error('Logout error:', error);
-            window.alert('Gagal logout. Silakan coba lagi.');
+            window.alert(t('common.logoutFailed'));
           });
       }
     } else {
       // Native: use Alert
       Alert.alert(
-        'Logout',
-        'Apakah Anda yakin ingin keluar?',
+        t('common.logout'),
+        t('common.logoutConfirm'),
         [
-          { text: 'Batal', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Logout',
+            text: t('common.logout'),
             style: 'destructive',
             onPress: async () => {
               try {
@@ -281,7 +551,7 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
                 router.replace('/login');
               } catch (error) {
                 console.error('Logout error:', error);
-                Alert.alert('Error', 'Gagal logout. Silakan coba lagi.');
+                Alert.alert(t('common.error'), t('common.logoutFailed'));
               }
             },
           },
@@ -295,7 +565,7 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
       <SafeAreaView style={styles.container}>
         <Header
           title="StockPocket AI"
-          subtitle={userInfo?.displayName ? `Hi, ${userInfo.displayName.split(' ')[0]}` : 'Financial Advisor'}
+          subtitle={userInfo?.displayName ? t('chat.greeting', { name: userInfo.displayName.split(' ')[0] }) : t('chat.subtitle')}
           onLeftPress={handleNewChat}
           onRightPress={handleGoToHistory}
           onExtraPress={isAuthenticated ? handleLogout : undefined}
@@ -303,6 +573,20 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
           rightIcon="list-alt"
           extraIcon="sign-out"
         />
+
+        <View style={styles.settingsRow}>
+          <PersonaSelector
+            persona={currentSession?.persona || DEFAULT_PERSONA}
+            riskProfile={riskProfile}
+            onPersonaChange={handlePersonaChange}
+            onRiskProfileChange={handleRiskProfileChange}
+            disabled={loading}
+            style={styles.personaSelector}
+          />
+          <LanguageSelector disabled={loading} style={styles.languageSelector} />
+        </View>
+
+        <QuotaBanner statuses={quotaStatuses} />
         
         <KeyboardAvoidingView
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -311,16 +595,29 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
         >
           <FlatList
             ref={flatListRef}
-            data={messages}
-            renderItem={({ item }) => <MessageBubble message={item} />}
+            data={visibleMessages.filter(m => !(m.isStreaming && !m.content))}
+            extraData={loading}
+            renderItem={({ item }) => item.id === 'welcome' ? (
+              <MessageBubble message={item} />
+            ) : (
+              <MessageBubble
+                message={item}
+                onRetry={handleRetry}
+                onRegenerate={handleRegenerate}
+                onEdit={handleEdit}
+                branch={getBranchInfo(treeMessages, item)}
+                onSwitchBranch={handleSwitchBranch}
+                actionsDisabled={loading}
+              />
+            )}
             keyExtractor={item => item.id}
             contentContainerStyle={styles.list}
             showsVerticalScrollIndicator={false}
             onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
           />
           
-          {/* Loading indicator */}
-          {loading && (
+          {/* Loading indicator (until the first streamed text arrives) */}
+          {loading && !messages.some(m => m.isStreaming && m.content) && (
             <View style={styles.loadingContainer}>
               <View style={styles.loadingBubble}>
                 <View style={styles.loadingDots}>
@@ -328,18 +625,29 @@ export const ChatScreen: React.FC<any> = ({ route }) => {
                   <View style={[styles.dot, styles.dot2]} />
                   <View style={[styles.dot, styles.dot3]} />
                 </View>
-                <Text style={styles.loadingText}>Menganalisis...</Text>
+                <Text style={styles.loadingText}>{t('chat.analyzing')}</Text>
               </View>
             </View>
           )}
           
+          <FollowUpChips
+            suggestions={followUps}
+            onSelect={handleSendMessage}
+            disabled={loading}
+          />
+
           <InputBox
             onSendMessage={handleSendMessage}
+            onStop={handleStopGeneration}
+            analysisMode={analysisMode}
+            onToggleAnalysisMode={() => setAnalysisMode(prev => !prev)}
             onAttachFile={handleAttachFile}
             attachments={attachments}
             loading={loading}
             parsing={parsing}
             onRemoveAttachment={handleRemoveAttachment}
+            editingText={editingMessage?.content}
+            onCancelEdit={() => setEditingMessage(null)}
           />
         </KeyboardAvoidingView>
       </SafeAreaView>
@@ -354,6 +662,17 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  personaSelector: {
+    flex: 1,
+  },
+  languageSelector: {
+    marginTop: Spacing.xs,
+    marginRight: Spacing.md,
+  },
   list: {
     paddingVertical: Spacing.md,
     paddingHorizontal: Spacing.sm,
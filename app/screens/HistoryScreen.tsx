@@ -1,6 +1,6 @@
 /**
  * Chat History Screen
- * Shows all previous chat sessions
+ * Shows all previous chat sessions with their AI-generated summary and tickers
  */
 
 import { FontAwesome } from '@expo/vector-icons';
@@ -22,9 +22,12 @@ import { GradientContainer } from '../components/GradientContainer';
 import { Header } from '../components/Header';
 import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
 import { useAuth } from '../context/AuthContext';
+import { useLanguage } from '../context/LanguageContext';
 import { firestoreService } from '../services/firestoreService';
 import { storageService } from '../services/storageService';
+import { totalTokens } from '../services/usageService';
 import { ChatSession } from '../types';
+import { formatDate, formatNumber } from '../utils/helpers';
 
 interface HistoryScreenProps {
   navigation?: any;
@@ -36,6 +39,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
   const router = useRouter();
   const { isAuthenticated, signOut, getUserInfo } = useAuth();
   const userInfo = getUserInfo();
+  const { t } = useLanguage();
 
   // Choose storage service based on auth status
   const storage = isAuthenticated ? firestoreService : storageService;
@@ -60,7 +64,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
   const handleLogout = () => {
     if (Platform.OS === 'web') {
       // Web: use window.confirm
-      const confirmed = window.confirm('Apakah Anda yakin ingin keluar?');
+      const confirmed = window.confirm(t('common.logoutConfirm'));
       if (confirmed) {
         signOut()
           .then(() => {
@@ -68,18 +72,18 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
           })
           .catch((error) => {
             console.error('Logout error:', error);
-            window.alert('Gagal logout. Silakan coba lagi.');
+            window.alert(t('common.logoutFailed'));
           });
       }
     } else {
       // Native: use Alert
       Alert.alert(
-        'Logout',
-        'Apakah Anda yakin ingin keluar?',
+        t('common.logout'),
+        t('common.logoutConfirm'),
         [
-          { text: 'Batal', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Logout',
+            text: t('common.logout'),
             style: 'destructive',
             onPress: async () => {
               try {
@@ -87,7 +91,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
                 router.replace('/login');
               } catch (error) {
                 console.error('Logout error:', error);
-                Alert.alert('Error', 'Gagal logout. Silakan coba lagi.');
+                Alert.alert(t('common.error'), t('common.logoutFailed'));
               }
             },
           },
@@ -104,11 +108,11 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
       setSessions(sorted);
     } catch (error) {
       console.error('Error loading sessions:', error);
-      Alert.alert('Error', 'Gagal memuat chat history');
+      Alert.alert(t('common.error'), t('history.loadFailed'));
     } finally {
       setLoading(false);
     }
-  }, [isAuthenticated]);
+  }, [storage, t]);
 
   useFocusEffect(
     useCallback(() => {
@@ -124,22 +128,22 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
       });
     } catch (error) {
       console.error('Error selecting session:', error);
-      Alert.alert('Error', 'Gagal membuka chat');
+      Alert.alert(t('common.error'), t('history.openFailed'));
     }
   };
 
   const handleDeleteSession = async (sessionId: string) => {
-    Alert.alert('Hapus Chat', 'Yakin ingin menghapus chat ini?', [
-      { text: 'Batal', onPress: () => {} },
+    Alert.alert(t('history.deleteTitle'), t('history.deleteConfirm'), [
+      { text: t('common.cancel'), onPress: () => {} },
       {
-        text: 'Hapus',
+        text: t('common.delete'),
         onPress: async () => {
           try {
             await storage.deleteChatSession(sessionId);
             setSessions((prev) => prev.filter((s) => s.id !== sessionId));
           } catch (error) {
             console.error('Error deleting session:', error);
-            Alert.alert('Error', 'Gagal menghapus chat');
+            Alert.alert(t('common.error'), t('history.deleteFailed'));
           }
         },
         style: 'destructive',
@@ -151,12 +155,12 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
     if (sessions.length === 0) return;
     
     Alert.alert(
-      'Hapus Semua Chat',
-      `Yakin ingin menghapus semua ${sessions.length} chat? Tindakan ini tidak dapat dibatalkan.`,
+      t('history.deleteAllTitle'),
+      t('history.deleteAllConfirm', { count: sessions.length }),
       [
-        { text: 'Batal', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Hapus Semua',
+          text: t('history.deleteAll'),
           onPress: async () => {
             try {
               setLoading(true);
@@ -165,10 +169,10 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
                 await storage.deleteChatSession(session.id);
               }
               setSessions([]);
-              Alert.alert('Berhasil', 'Semua chat telah dihapus');
+              Alert.alert(t('common.success'), t('history.deleteAllDone'));
             } catch (error) {
               console.error('Error deleting all sessions:', error);
-              Alert.alert('Error', 'Gagal menghapus semua chat');
+              Alert.alert(t('common.error'), t('history.deleteAllFailed'));
             } finally {
               setLoading(false);
             }
@@ -189,17 +193,30 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
           {item.title}
         </Text>
         <Text style={styles.sessionPreview} numberOfLines={2}>
-          {item.messages.length > 0 ? item.messages[0].content : 'Belum ada pesan'}
+          {item.overview?.summary
+            || (item.messages.length > 0 ? item.messages[0].content : t('history.noMessages'))}
         </Text>
+        {item.overview && item.overview.tickers.length > 0 && (
+          <View style={styles.tickerRow}>
+            {item.overview.tickers.map(ticker => (
+              <View key={ticker} style={styles.tickerChip}>
+                <Text style={styles.tickerText}>{ticker}</Text>
+              </View>
+            ))}
+          </View>
+        )}
         <View style={styles.sessionMeta}>
           <View style={styles.messageCountContainer}>
             <FontAwesome name="comment" size={12} color={Colors.accent} style={styles.messageCountIcon} />
             <Text style={styles.messageCount}>
-              {item.messages.length} pesan
+              {t('history.messageCount', { count: item.messages.length })}
+              {item.usage && ` · ${t('history.tokens', {
+                tokens: formatNumber(totalTokens(item.usage)),
+              })}`}
             </Text>
           </View>
           <Text style={styles.date}>
-            {new Date(item.updatedAt).toLocaleDateString('id-ID')}
+            {formatDate(item.updatedAt)}
           </Text>
         </View>
       </View>
@@ -217,8 +234,10 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
     <GradientContainer variant="vibrant">
       <SafeAreaView style={styles.container}>
       <Header
-        title="Chat History"
-        subtitle={userInfo?.displayName ? `${sessions.length} chats • ${userInfo.displayName.split(' ')[0]}` : `${sessions.length} chat${sessions.length !== 1 ? 's' : ''}`}
+        title={t('history.title')}
+        subtitle={userInfo?.displayName
+          ? t('history.countWithName', { count: sessions.length, name: userInfo.displayName.split(' ')[0] })
+          : t('history.count', { count: sessions.length })}
         onLeftPress={handleGoBack}
         onRightPress={handleGoToNewChat}
         onExtraPress={isAuthenticated ? handleLogout : undefined}
@@ -232,9 +251,9 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
         ) : sessions.length === 0 ? (
           <View style={styles.centerContent}>
             <FontAwesome name="inbox" size={60} color={Colors.white} style={styles.emptyIconStyle} />
-            <Text style={styles.emptyTitle}>Belum ada chat</Text>
+            <Text style={styles.emptyTitle}>{t('history.emptyTitle')}</Text>
             <Text style={styles.emptySubtitle}>
-              Mulai percakapan baru untuk mendapatkan rekomendasi financial advisor
+              {t('history.emptySubtitle')}
             </Text>
           </View>
         ) : (
@@ -245,7 +264,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
               onPress={handleDeleteAllSessions}
             >
               <FontAwesome name="trash-o" size={14} color={Colors.error || '#ef4444'} />
-              <Text style={styles.clearAllText}>Hapus Semua Chat</Text>
+              <Text style={styles.clearAllText}>{t('history.deleteAllTitle')}</Text>
             </TouchableOpacity>
             
             <FlatList
@@ -346,6 +365,24 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
     lineHeight: 20,
   },
+  tickerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  tickerChip: {
+    backgroundColor: Colors.primaryLight,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  tickerText: {
+    fontSize: Typography.caption.fontSize,
+    color: Colors.accent,
+    fontWeight: '600',
+  },
   sessionMeta: {
     flexDirection: 'row',
     justifyContent: 'space-between',
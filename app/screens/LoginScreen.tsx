@@ -10,7 +10,7 @@ import Constants from 'expo-constants';
 import { useRouter } from 'expo-router';
 import * as WebBrowser from 'expo-web-browser';
 import { GoogleAuthProvider, signInWithCredential, signInWithPopup } from 'firebase/auth';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -26,6 +26,7 @@ import { GradientContainer } from '../components/GradientContainer';
 import { auth } from '../config/firebase';
 import { BorderRadius, Colors, Spacing, Typography } from '../constants/theme';
 import { useAuth } from '../context/AuthContext';
+import { useLanguage } from '../context/LanguageContext';
 
 // Complete auth session for native
 WebBrowser.maybeCompleteAuthSession();
@@ -42,6 +43,10 @@ const isExpoGo = Constants.appOwnership === 'expo';
 export const LoginScreen: React.FC = () => {
   const router = useRouter();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { t } = useLanguage();
+  // Read by the auth response handler, which must not re-run when the language changes
+  const tRef = useRef(t);
+  tRef.current = t;
   const [isSigningIn, setIsSigningIn] = useState(false);
 
   // For Expo Go, we MUST use the proxy
@@ -79,7 +84,7 @@ export const LoginScreen: React.FC = () => {
       }
     } else if (response?.type === 'error') {
       console.error('Native Google Auth Error:', response.error);
-      Alert.alert('Error', 'Gagal login dengan Google. Silakan coba lagi.');
+      Alert.alert(tRef.current('common.error'), tRef.current('login.googleFailed'));
       setIsSigningIn(false);
     } else if (response?.type === 'dismiss') {
       setIsSigningIn(false);
@@ -113,7 +118,7 @@ export const LoginScreen: React.FC = () => {
       router.replace('/');
     } catch (error: any) {
       console.error('Native sign in error:', error);
-      Alert.alert('Error', error.message || 'Gagal login. Silakan coba lagi.');
+      Alert.alert(t('common.error'), error.message || t('login.failed'));
     } finally {
       setIsSigningIn(false);
     }
@@ -145,9 +150,9 @@ export const LoginScreen: React.FC = () => {
       if (error.code === 'auth/popup-closed-by-user') {
         console.log('Popup closed by user');
       } else if (error.code === 'auth/popup-blocked') {
-        Alert.alert('Popup Diblokir', 'Izinkan popup di browser Anda untuk login dengan Google.');
+        Alert.alert(t('login.popupBlockedTitle'), t('login.popupBlocked'));
       } else {
-        Alert.alert('Error', error.message || 'Gagal login. Silakan coba lagi.');
+        Alert.alert(t('common.error'), error.message || t('login.failed'));
       }
       setIsSigningIn(false);
     }
@@ -159,7 +164,7 @@ export const LoginScreen: React.FC = () => {
         <SafeAreaView style={styles.container}>
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={Colors.white} />
-            <Text style={styles.loadingText}>Memuat...</Text>
+            <Text style={styles.loadingText}>{t('common.loading')}</Text>
           </View>
         </SafeAreaView>
       </GradientContainer>
@@ -176,14 +181,14 @@ export const LoginScreen: React.FC = () => {
               <FontAwesome name="line-chart" size={60} color={Colors.white} />
             </View>
             <Text style={styles.appName}>StockPocket</Text>
-            <Text style={styles.tagline}>Financial Advisor AI Assistant</Text>
+            <Text style={styles.tagline}>{t('login.tagline')}</Text>
           </View>
 
           {/* Welcome Text */}
           <View style={styles.welcomeSection}>
-            <Text style={styles.welcomeTitle}>Selamat Datang!</Text>
+            <Text style={styles.welcomeTitle}>{t('login.welcomeTitle')}</Text>
             <Text style={styles.welcomeDescription}>
-              Login untuk menyimpan riwayat chat Anda dan mengakses dari perangkat manapun
+              {t('login.welcomeDescription')}
             </Text>
           </View>
 
@@ -202,14 +207,14 @@ export const LoginScreen: React.FC = () => {
                   <View style={styles.googleIconContainer}>
                     <FontAwesome name="google" size={20} color="#DB4437" />
                   </View>
-                  <Text style={styles.googleButtonText}>Masuk dengan Google</Text>
+                  <Text style={styles.googleButtonText}>{t('login.google')}</Text>
                 </>
               )}
             </TouchableOpacity>
 
             {/* Terms */}
             <Text style={styles.termsText}>
-              Dengan masuk, Anda menyetujui Syarat & Ketentuan dan Kebijakan Privasi kami
+              {t('login.terms')}
             </Text>
           </View>
 
@@ -217,15 +222,15 @@ export const LoginScreen: React.FC = () => {
           <View style={styles.featuresSection}>
             <View style={styles.featureItem}>
               <FontAwesome name="cloud" size={16} color={Colors.accentLight} />
-              <Text style={styles.featureText}>Sync data antar perangkat</Text>
+              <Text style={styles.featureText}>{t('login.featureSync')}</Text>
             </View>
             <View style={styles.featureItem}>
               <FontAwesome name="lock" size={16} color={Colors.accentLight} />
-              <Text style={styles.featureText}>Data aman & terenkripsi</Text>
+              <Text style={styles.featureText}>{t('login.featureSecure')}</Text>
             </View>
             <View style={styles.featureItem}>
               <FontAwesome name="history" size={16} color={Colors.accentLight} />
-              <Text style={styles.featureText}>Akses riwayat chat kapanpun</Text>
+              <Text style={styles.featureText}>{t('login.featureHistory')}</Text>
             </View>
           </View>
         </View>
@@ -0,0 +1,176 @@
+/**
+ * AI Errors
+ *
+ * Typed error taxonomy for LLM calls, plus retry with exponential backoff
+ * and per-attempt timeouts (AppConfig.API.MAX_RETRIES / REQUEST_TIMEOUT),
+ * optionally bounded by an overall deadline.
+ */
+
+import { AppConfig } from "../constants/config";
+import { translate } from "../i18n";
+import { AiErrorKind, MessageError } from "../types";
+
+// ============================================
+// ERROR TYPES
+// ============================================
+
+export type { AiErrorKind };
+
+// Transient failures worth retrying automatically
+const RETRYABLE_KINDS: AiErrorKind[] = ['network', 'timeout', 'quota'];
+
+export class AiError extends Error {
+  readonly kind: AiErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: AiErrorKind, options: { message?: string; status?: number; cause?: unknown } = {}) {
+    // Default message in the current UI language (i18n error.* keys)
+    super(options.message || translate(`error.${kind}`));
+    this.name = 'AiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+  }
+
+  /**
+   * Plain form stored on the failed assistant Message
+   */
+  toMessageError(): MessageError {
+    return { kind: this.kind, message: this.message, retryable: this.retryable };
+  }
+}
+
+/**
+ * Classify any thrown value into an AiError
+ */
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+
+  const err = error as any;
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+  const message: string = String(err?.message || '').toLowerCase();
+
+  if (err?.name === 'AbortError') {
+    return new AiError('cancelled', { cause: error });
+  }
+  if (status === 401 || status === 403 || message.includes('api key') || message.includes('permission_denied')) {
+    return new AiError('auth', { status, cause: error });
+  }
+  if (status === 429 || message.includes('quota') || message.includes('resource_exhausted')) {
+    return new AiError('quota', { status, cause: error });
+  }
+  if (status === 408 || status === 504 || message.includes('timeout') || message.includes('deadline')) {
+    return new AiError('timeout', { status, cause: error });
+  }
+  if ((status !== undefined && status >= 500) || message.includes('network') || message.includes('fetch')) {
+    return new AiError('network', { status, cause: error });
+  }
+  if (message.includes('safety') || message.includes('blocked')) {
+    return new AiError('safety', { status, cause: error });
+  }
+  return new AiError('unknown', { status, cause: error });
+};
+
+// ============================================
+// RETRY
+// ============================================
+
+export interface AttemptContext {
+  /** Aborted on caller cancel or attempt timeout */
+  signal: AbortSignal;
+  /** Reset the attempt timeout (e.g. on each streamed chunk) */
+  heartbeat: () => void;
+  attempt: number;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  /**
+   * Epoch ms by which the whole call, retries included, must end: each
+   * attempt gets at most the remaining time and no retry starts past it
+   */
+  deadline?: number;
+  /** Extra veto, e.g. do not retry once partial output was shown */
+  shouldRetry?: (error: AiError, attempt: number) => boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run fn with a per-attempt timeout, retrying transient failures with
+ * exponential backoff (base * 2^attempt + jitter). Always throws AiError.
+ */
+export const withRetry = async <T>(
+  fn: (context: AttemptContext) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const {
+    signal,
+    maxRetries = AppConfig.API.MAX_RETRIES,
+    timeoutMs = AppConfig.API.REQUEST_TIMEOUT,
+    baseDelayMs = 500,
+    deadline,
+    shouldRetry,
+  } = options;
+  const remaining = () => (deadline === undefined ? Infinity : deadline - Date.now());
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new AiError('cancelled');
+    if (remaining() <= 0) throw new AiError('timeout');
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const heartbeat = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, Math.max(0, Math.min(timeoutMs, remaining())));
+    };
+    heartbeat();
+
+    try {
+      return await fn({ signal: controller.signal, heartbeat, attempt });
+    } catch (error) {
+      const aiError = timedOut
+        ? new AiError('timeout', { cause: error })
+        : signal?.aborted
+          ? new AiError('cancelled', { cause: error })
+          : toAiError(error);
+
+      const delay = baseDelayMs * Math.pow(2, attempt) + Math.random() * baseDelayMs;
+      const canRetry = aiError.retryable
+        && attempt < maxRetries
+        && delay < remaining()
+        && (!shouldRetry || shouldRetry(aiError, attempt));
+      if (!canRetry) throw aiError;
+
+      console.warn(`🔁 AI call failed (${aiError.kind}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
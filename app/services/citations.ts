@@ -0,0 +1,68 @@
+/**
+ * Citations
+ *
+ * Collects citable sources (news articles from tool results, Google Search
+ * grounding) during one turn and numbers them, so the model can cite them
+ * with [n] markers that map to Message.sources[n - 1].
+ */
+
+import { GroundingSource, Language } from "../types";
+
+export const CITATION_INSTRUCTIONS: Record<Language, string> = {
+  id: `
+Sitasi Sumber:
+- Hasil tools dapat berisi daftar "citations" berformat { ref, title, uri }.
+- Jika Anda memakai informasi dari sumber tersebut, cantumkan nomor rujukannya dalam kurung siku tepat setelah kalimat terkait, contoh: "Inflasi turun ke 2,5% [1]."
+- Gunakan hanya nomor yang tersedia di "citations". JANGAN mengarang nomor atau URL.
+`,
+  en: `
+Source Citations:
+- Tool results may contain a "citations" list formatted as { ref, title, uri }.
+- When you use information from those sources, put the reference number in square brackets right after the related sentence, e.g. "Inflation fell to 2.5% [1]."
+- Only use numbers listed in "citations". DO NOT make up numbers or URLs.
+`,
+};
+
+export interface Citation extends GroundingSource {
+  /** 1-based reference number used in [n] markers */
+  ref: number;
+}
+
+/**
+ * Normalize a URL for deduplication (scheme, trailing slash, fragment)
+ */
+const normalizeUri = (uri: string): string =>
+  uri.trim().replace(/^https?:\/\//i, '').replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+
+export class CitationCollector {
+  private citations: Citation[] = [];
+  private refsByUri = new Map<string, number>();
+
+  /**
+   * Add sources (deduplicated by URL) and return them with their numbers
+   */
+  add(sources: GroundingSource[]): Citation[] {
+    return sources
+      .filter(source => source.uri)
+      .map(source => {
+        const key = normalizeUri(source.uri);
+        const existing = this.refsByUri.get(key);
+        if (existing !== undefined) {
+          return this.citations[existing - 1];
+        }
+
+        const citation: Citation = { ref: this.citations.length + 1, uri: source.uri, title: source.title };
+        this.citations.push(citation);
+        this.refsByUri.set(key, citation.ref);
+        return citation;
+      })
+      .filter((citation, index, list) => list.indexOf(citation) === index);
+  }
+
+  /**
+   * All collected sources, ordered by reference number
+   */
+  getSources(): GroundingSource[] {
+    return this.citations.map(({ uri, title }) => ({ uri, title }));
+  }
+}
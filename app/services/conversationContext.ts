@@ -0,0 +1,108 @@
+/**
+ * Conversation Context
+ *
+ * Token estimation and history budgeting for long chats.
+ * Older turns that do not fit the budget are folded into a rolling
+ * "conversation so far" summary stored on the ChatSession.
+ */
+
+import { AppConfig } from "../constants/config";
+import { ConversationSummary, Language, Message } from "../types";
+
+// Rough heuristic: ~4 characters per token for mixed Indonesian/English text
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead (role, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Speaker labels in transcripts sent to the model
+const TRANSCRIPT_LABELS: Record<Language, { user: string; assistant: string }> = {
+  id: { user: 'Pengguna', assistant: 'Asisten' },
+  en: { user: 'User', assistant: 'Assistant' },
+};
+
+export interface BudgetedHistory {
+  /** Messages sent verbatim to the model */
+  recent: Message[];
+  /** Older messages not yet in the summary that must be folded into it */
+  toSummarize: Message[];
+  /** Existing summary that is still valid for this history (if any) */
+  summary?: ConversationSummary;
+}
+
+/**
+ * Estimate token count of a text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Estimate token count of a message
+ */
+export const estimateMessageTokens = (message: Message): number => {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+};
+
+/**
+ * Estimate token count of a list of messages
+ */
+export const estimateHistoryTokens = (messages: Message[]): number => {
+  return messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+};
+
+/**
+ * Split history into what is sent verbatim and what must be summarized.
+ *
+ * - Messages already covered by a valid summary are never sent again.
+ * - If the rest fits the budget, nothing new is summarized.
+ * - Otherwise the newest messages are kept (at least minRecent) and
+ *   everything older goes to toSummarize.
+ */
+export const budgetHistory = (
+  history: Message[],
+  summary?: ConversationSummary,
+  budget: number = AppConfig.CHAT.CONTEXT_TOKEN_BUDGET,
+  minRecent: number = AppConfig.CHAT.MIN_RECENT_MESSAGES
+): BudgetedHistory => {
+  const messages = history.filter(msg => !msg.isPlaceholder && !msg.isStreaming);
+
+  // A summary only applies if the message it stops at is still in this history
+  const coveredIndex = summary
+    ? messages.findIndex(msg => msg.id === summary.coveredUntilMessageId)
+    : -1;
+  const validSummary = coveredIndex >= 0 ? summary : undefined;
+  const uncovered = messages.slice(coveredIndex + 1);
+
+  const summaryTokens = validSummary ? estimateTokens(validSummary.text) : 0;
+  if (summaryTokens + estimateHistoryTokens(uncovered) <= budget) {
+    return { recent: uncovered, toSummarize: [], summary: validSummary };
+  }
+
+  // Keep the newest messages within half the budget, leaving room for the summary
+  const recentBudget = Math.floor(budget / 2);
+  let used = 0;
+  let splitIndex = uncovered.length;
+  while (splitIndex > 0) {
+    const cost = estimateMessageTokens(uncovered[splitIndex - 1]);
+    const keptCount = uncovered.length - splitIndex;
+    if (keptCount >= minRecent && used + cost > recentBudget) break;
+    used += cost;
+    splitIndex--;
+  }
+
+  return {
+    recent: uncovered.slice(splitIndex),
+    toSummarize: uncovered.slice(0, splitIndex),
+    summary: validSummary,
+  };
+};
+
+/**
+ * Render messages as a plain transcript for the summarization prompt
+ */
+export const formatTranscript = (messages: Message[], language: Language): string => {
+  const labels = TRANSCRIPT_LABELS[language];
+  return messages
+    .map(msg => `${msg.role === 'user' ? labels.user : labels.assistant}: ${msg.content}`)
+    .join('\n\n');
+};
@@ -0,0 +1,213 @@
+/**
+ * Fact Check
+ *
+ * Post-processing step that finds numeric claims tied to a ticker in an
+ * answer (price, daily change, PER, PBV, ROE, DER, dividend yield, ...) and
+ * compares them with the quote / key-metrics data the tools returned during
+ * the turn (VerifiedFact, see financialTools.ts).
+ *
+ * Deliberately conservative: a claim is only checked when its metric keyword,
+ * number and ticker are unambiguous. Targets, averages, ranges and historical
+ * figures are skipped rather than risking a false flag.
+ */
+
+import { FactCheckResult, FactMetric, FactMismatch, VerifiedFact } from "../types";
+
+// Allowed relative difference (tool data can move between calls and the
+// model rounds), on top of the rounding implied by the digits written
+const REL_TOLERANCE = 0.02;
+
+// Max characters between a metric keyword and its number
+const MAX_GAP = 30;
+
+// 9.500 / 1,234.56 / 15,2 / 0.18
+const NUM = String.raw`\d{1,3}(?:[.,]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?`;
+
+const CLAIM = new RegExp(String.raw`^([^\d\n]{0,${MAX_GAP}}?)(${NUM})(?![\d.,]\d)(\s*%)?`);
+
+const METRIC_PATTERNS: [FactMetric, RegExp][] = [
+  ['price', /\b(?:[Hh]arga(?: saham| terakhir| penutupan| saat ini| sekarang)?|[Pp]rice|[Dd]itutup(?: di| pada)?|[Cc]losed at|[Tt]rading at|[Dd]iperdagangkan(?: di| pada)?)\b(?![- ]?(?:to|earnings|book|target|tertinggi|terendah|wajar|rata))/g],
+  ['change_percent', /\b(?:[Nn]aik|[Tt]urun|[Mm]enguat|[Mm]elemah|[Tt]erkoreksi|[Pp]erubahan(?: harga)?|[Bb]erubah|[Rr]ose|[Ff]ell|[Gg]ained|[Ll]ost|[Cc]hange|[Uu]p|[Dd]own)\b/g],
+  ['pe', /\bPER\b|\bP\/E\b|\bPE\b|[Pp]rice[- ]to[- ][Ee]arnings/g],
+  ['eps', /\bEPS\b|[Ll]aba per saham|[Ee]arnings per share/g],
+  ['pb', /\bPBV\b|\bP\/B\b|\bPB\b|[Pp]rice[- ]to[- ][Bb]ook/g],
+  ['roe', /\bROE\b|[Rr]eturn on [Ee]quity/g],
+  ['roa', /\bROA\b|[Rr]eturn on [Aa]ssets/g],
+  ['der', /\bDER\b|\bD\/E\b|[Dd]ebt[- ]to[- ][Ee]quity/g],
+  ['dividend_yield', /[Dd]ividend [Yy]ield|[Yy]ield [Dd]ividen|[Ii]mbal hasil dividen/g],
+  ['current_ratio', /[Cc]urrent [Rr]atio|[Rr]asio lancar/g],
+];
+
+// Metrics the tools return as fractions (0.18) that answers usually state as percent (18%)
+const FRACTION_METRICS = new Set<FactMetric>(['roe', 'roa', 'der', 'dividend_yield']);
+
+// The number belongs to something else than the current value of the metric
+const OTHER_FIGURE = /target|wajar|fair|tertinggi|terendah|\bhigh|\blow|support|resistance|rata-rata|average|industri|industry|sektor|sector|estimasi|estimate|proyeksi|forecast|sebelumnya|previous|tahun lalu|last year|\bvs\b/i;
+
+// Several values listed after one keyword ("PER dan PBV masing-masing 15x dan 2x")
+const GAP_BREAK = /\b(?:dan|and|serta|atau|or|versus|masing-masing|respectively)\b|[.!?]\s/i;
+
+// Scaled numbers ("Rp 9,5 ribu", "1,2 triliun") are not compared
+const SCALE_SUFFIX = /^\s*(?:ribu|rb|k|juta|jt|miliar|triliun|thousand|million|billion|trillion|mn|bn|[MBT])\b/i;
+
+// Direction words of a change claim; without one the sign is not compared
+const CHANGE_UP = /^(?:naik|menguat|rose|gained|up)$/i;
+const CHANGE_DOWN = /^(?:turun|melemah|terkoreksi|fell|lost|down)$/i;
+
+/**
+ * Sign stated by a change claim: a direction word ("turun 1,2%") or an
+ * explicit sign right before the number ("perubahan -1,2%"); 0 when neither
+ */
+const claimedSign = (keyword: string, gap: string): number => {
+  const explicit = gap.trimEnd().slice(-1);
+  if (explicit === '-' || explicit === '−') return -1;
+  if (explicit === '+') return 1;
+  if (CHANGE_UP.test(keyword)) return 1;
+  if (CHANGE_DOWN.test(keyword)) return -1;
+  return 0;
+};
+
+// Changes over a period other than today's session
+const PERIOD_SUFFIX = /^[^\n.]{0,30}?\b(?:sepekan|seminggu|sebulan|setahun|tahun|bulan|minggu|ytd|sejak|since|week|month|year)\b/i;
+
+interface ParsedNumber {
+  value: number;
+  decimals: number;
+}
+
+/**
+ * Possible values of a number written in Indonesian or English notation;
+ * "9.500" is either 9500 (ID thousands) or 9.5 (EN decimal)
+ */
+const parseClaimNumber = (raw: string): ParsedNumber[] => {
+  const lastDot = raw.lastIndexOf('.');
+  const lastComma = raw.lastIndexOf(',');
+
+  const make = (digits: string, decimalSep?: string): ParsedNumber => {
+    const [whole, fraction = ''] = decimalSep ? digits.split(decimalSep) : [digits];
+    return { value: Number(`${whole}.${fraction || '0'}`), decimals: fraction.length };
+  };
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimalSep = lastDot > lastComma ? '.' : ',';
+    const thousandsSep = decimalSep === '.' ? ',' : '.';
+    return [make(raw.split(thousandsSep).join(''), decimalSep)];
+  }
+  if (lastDot < 0 && lastComma < 0) return [make(raw)];
+
+  const sep = lastDot >= 0 ? '.' : ',';
+  const groups = raw.split(sep);
+  const candidates: ParsedNumber[] = [];
+  if (groups.slice(1).every(group => group.length === 3)) candidates.push(make(groups.join('')));
+  if (groups.length === 2) candidates.push(make(raw, sep));
+  return candidates.filter(candidate => isFinite(candidate.value));
+};
+
+const baseTicker = (ticker: string): string => ticker.toUpperCase().replace(/\.JK$/, '');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Positions where each ticker (with or without .JK) is mentioned
+ */
+const findTickerMentions = (text: string, tickers: string[]): { ticker: string; index: number }[] =>
+  tickers
+    .flatMap(ticker =>
+      Array.from(text.matchAll(new RegExp(`\\b${escapeRegExp(ticker)}(?:\\.JK)?\\b`, 'g')))
+        .map(match => ({ ticker, index: match.index ?? 0 }))
+    )
+    .sort((a, b) => a.index - b.index);
+
+/**
+ * Compare the numeric claims in `text` with the facts fetched during the turn
+ */
+export const checkFacts = (text: string, facts: VerifiedFact[]): FactCheckResult => {
+  const result: FactCheckResult = { checkedClaims: 0, mismatches: [] };
+  if (!text || facts.length === 0) return result;
+
+  const tickers = Array.from(new Set(facts.map(fact => baseTicker(fact.ticker))));
+  const mentions = findTickerMentions(text, tickers);
+  const claimedPositions = new Set<number>();
+
+  /**
+   * Ticker a number refers to: mentioned earlier on the same line, else
+   * earlier in the text (not across table rows), else the only ticker fetched
+   */
+  const resolveTicker = (numberIndex: number): string | null => {
+    const lineStart = text.lastIndexOf('\n', numberIndex - 1) + 1;
+    const before = mentions.filter(mention => mention.index < numberIndex);
+    const sameLine = before.filter(mention => mention.index >= lineStart).pop();
+    if (sameLine) return sameLine.ticker;
+
+    const isTableRow = text.slice(lineStart).trimStart().startsWith('|');
+    if (!isTableRow && before.length > 0) return before[before.length - 1].ticker;
+    return tickers.length === 1 ? tickers[0] : null;
+  };
+
+  for (const [metric, pattern] of METRIC_PATTERNS) {
+    const metricFacts = facts.filter(fact => fact.metric === metric);
+    if (metricFacts.length === 0) continue;
+
+    for (const keyword of text.matchAll(pattern)) {
+      const keywordStart = keyword.index ?? 0;
+      const keywordEnd = keywordStart + keyword[0].length;
+      const claim = CLAIM.exec(text.slice(keywordEnd));
+      if (!claim) continue;
+
+      const [, gap, raw, percent] = claim;
+      const numberIndex = keywordEnd + gap.length;
+      const numberEnd = numberIndex + raw.length;
+      const after = text.slice(numberEnd);
+
+      if (claimedPositions.has(numberIndex)) continue;
+      if (GAP_BREAK.test(gap) || (gap.match(/\|/g) || []).length > 1) continue;
+      if (OTHER_FIGURE.test(text.slice(Math.max(0, keywordStart - 20), numberIndex))) continue;
+      if (SCALE_SUFFIX.test(after)) continue;
+      if (/^(?:19|20)\d\d$/.test(raw)) continue; // A year, not a value
+      if (metric === 'price' && percent) continue;
+      if (metric === 'change_percent' && (!percent || PERIOD_SUFFIX.test(after))) continue;
+
+      const ticker = resolveTicker(numberIndex);
+      const tickerFacts = metricFacts.filter(fact => baseTicker(fact.ticker) === ticker);
+      const candidates = parseClaimNumber(raw);
+      if (!ticker || tickerFacts.length === 0 || candidates.length === 0) continue;
+
+      claimedPositions.add(numberIndex);
+      result.checkedClaims++;
+
+      // A change with a direction ("turun 1,2%" = -1.2) is compared signed,
+      // other values by magnitude
+      const sign = metric === 'change_percent' ? claimedSign(keyword[0], gap) : 0;
+      const signed = (value: number) => (sign === 0 ? Math.abs(value) : value);
+      const verifiedValues = tickerFacts.flatMap(fact =>
+        (FRACTION_METRICS.has(metric) ? [1, 100] : [1]).map(scale => ({ fact, value: signed(fact.value * scale) }))
+      );
+      const claimed = candidates.map(candidate => ({ ...candidate, value: sign === 0 ? candidate.value : sign * candidate.value }));
+      const matches = claimed.some(candidate =>
+        verifiedValues.some(({ value }) =>
+          Math.abs(candidate.value - value) <= Math.max(Math.abs(value) * REL_TOLERANCE, 0.5 * 10 ** -candidate.decimals)
+        )
+      );
+      if (matches) continue;
+
+      const claimedValue = claimed[0].value;
+      const closest = verifiedValues.reduce((best, current) =>
+        Math.abs(current.value - claimedValue) < Math.abs(best.value - claimedValue) ? current : best
+      );
+      const mismatch: FactMismatch = {
+        ticker: closest.fact.ticker,
+        metric,
+        claimed: raw,
+        index: numberIndex,
+        claimedValue,
+        // Changes are shown with their sign, so "naik" vs "turun" errors are visible
+        verifiedValue: metric === 'change_percent' ? closest.fact.value : closest.value,
+        tool: closest.fact.tool,
+      };
+      result.mismatches.push(mismatch);
+    }
+  }
+
+  result.mismatches.sort((a, b) => a.index - b.index);
+  return result;
+};
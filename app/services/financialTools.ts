@@ -0,0 +1,386 @@
+/**
+ * Financial Tools
+ *
+ * Gemini function-calling tools backed by marketDataService.
+ * Each tool registers its declaration, validator, executor, timeout,
+ * formatter and result summarizer with the ToolRegistry. Results carry
+ * when their data was fetched (cached data may be stale); when an API limit
+ * leaves no data at all, the tool fails with DATA_LIMIT instead of
+ * returning nothing.
+ */
+
+import { FunctionDeclaration, Type } from "@google/genai";
+import { translate } from "../i18n";
+import {
+  CachedData,
+  CompanyProfile,
+  FactMetric,
+  FinancialStatement,
+  KeyMetrics,
+  StockQuote,
+  VerifiedFact,
+} from "../types";
+import { formatNumber } from "../utils/helpers";
+import { isEmptyData } from "./marketDataCache";
+import { MarketDataService, marketDataService } from "./marketDataService";
+import { ToolDefinition, ToolError, ToolRegistry, ToolValidators } from "./toolRegistry";
+
+// ============================================
+// FUNCTION DECLARATIONS
+// ============================================
+
+const getStockNewsTool: FunctionDeclaration = {
+  name: "get_stock_news",
+  description: "Mengambil berita terbaru untuk kode saham (ticker) tertentu dari Financial Modeling Prep. Gunakan ini ketika user bertanya tentang saham spesifik.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: {
+        type: Type.STRING,
+        description: "Kode saham (Ticker Symbol), contoh: BBCA, TLKM, AAPL, GOTO, ASII.",
+      },
+    },
+    required: ["ticker"],
+  },
+};
+
+const getMacroNewsTool: FunctionDeclaration = {
+  name: "get_macro_news",
+  description: "Mengambil berita makro ekonomi atau keuangan umum dari NewsAPI. Gunakan ini ketika user bertanya tentang ekonomi, inflasi, suku bunga, atau pasar secara umum.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: {
+        type: Type.STRING,
+        description: "Kata kunci pencarian berita, contoh: 'inflasi indonesia', 'the fed', 'ihsg', 'suku bunga BI'.",
+      },
+    },
+    required: ["query"],
+  },
+};
+
+const tickerParameter = {
+  type: Type.STRING,
+  description: "Kode saham (Ticker Symbol), contoh: BBCA, TLKM, AAPL, MSFT. Saham IDX boleh tanpa akhiran .JK; nama perusahaan juga diterima.",
+};
+
+const getStockQuoteTool: FunctionDeclaration = {
+  name: "get_stock_quote",
+  description: "Mengambil harga saham real-time (harga, perubahan, volume, market cap, PE, EPS, range harian & 52 minggu) beserta bursa dan mata uangnya. Gunakan ini ketika user bertanya tentang harga atau pergerakan saham.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: tickerParameter,
+    },
+    required: ["ticker"],
+  },
+};
+
+const getCompanyProfileTool: FunctionDeclaration = {
+  name: "get_company_profile",
+  description: "Mengambil profil perusahaan (nama, sektor, industri, negara, CEO, deskripsi bisnis, beta, tanggal IPO).",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: tickerParameter,
+    },
+    required: ["ticker"],
+  },
+};
+
+const getIncomeStatementTool: FunctionDeclaration = {
+  name: "get_income_statement",
+  description: "Mengambil laporan laba rugi (revenue, gross profit, operating income, net income, EPS) untuk beberapa periode terakhir.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: tickerParameter,
+      period: {
+        type: Type.STRING,
+        enum: ["annual", "quarter"],
+        description: "Periode laporan: 'annual' (tahunan) atau 'quarter' (kuartalan). Default: annual.",
+      },
+      limit: {
+        type: Type.INTEGER,
+        description: "Jumlah periode yang diambil (1-10). Default: 4.",
+      },
+    },
+    required: ["ticker"],
+  },
+};
+
+const getKeyMetricsTool: FunctionDeclaration = {
+  name: "get_key_metrics",
+  description: "Mengambil rasio keuangan TTM (PE, PBV, Debt to Equity, Current Ratio, ROE, ROA, Dividend Yield, P/S, Enterprise Value). Gunakan ini untuk analisis valuasi dan fundamental.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: tickerParameter,
+    },
+    required: ["ticker"],
+  },
+};
+
+const getHistoricalPricesTool: FunctionDeclaration = {
+  name: "get_historical_prices",
+  description: "Mengambil harga penutupan harian historis untuk melihat tren harga saham.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ticker: tickerParameter,
+      days: {
+        type: Type.INTEGER,
+        description: "Jumlah hari perdagangan terakhir (1-365). Default: 30.",
+      },
+    },
+    required: ["ticker"],
+  },
+};
+
+const searchStocksTool: FunctionDeclaration = {
+  name: "search_stocks",
+  description: "Mencari kode saham berdasarkan nama perusahaan atau sebagian ticker. Gunakan ini jika ticker yang dimaksud user tidak jelas.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: {
+        type: Type.STRING,
+        description: "Nama perusahaan atau ticker, contoh: 'Bank Central Asia', 'Telkom', 'apple'.",
+      },
+    },
+    required: ["query"],
+  },
+};
+
+const getMarketMoversTool: FunctionDeclaration = {
+  name: "get_market_movers",
+  description: "Mengambil daftar saham dengan kenaikan (gainers) atau penurunan (losers) terbesar hari ini.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      direction: {
+        type: Type.STRING,
+        enum: ["gainers", "losers"],
+        description: "'gainers' untuk kenaikan terbesar, 'losers' untuk penurunan terbesar.",
+      },
+    },
+    required: ["direction"],
+  },
+};
+
+const getEconomicIndicatorTool: FunctionDeclaration = {
+  name: "get_economic_indicator",
+  description: "Mengambil data indikator ekonomi (contoh: GDP, CPI, inflationRate, federalFunds, unemploymentRate).",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      indicator: {
+        type: Type.STRING,
+        description: "Nama indikator, contoh: 'GDP', 'CPI', 'inflationRate', 'federalFunds', 'unemploymentRate'.",
+      },
+    },
+    required: ["indicator"],
+  },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const { requiredString, optionalInt, optionalString, oneOf } = ToolValidators;
+
+/**
+ * Fail loudly when an API limit left the tool with no data (not even cached)
+ */
+const checkDataLimit = (toolName: string, result: CachedData<unknown>): void => {
+  if (result.quotaLimited && isEmptyData(result.data)) {
+    throw new ToolError('DATA_LIMIT', toolName, translate('tool.dataLimit'));
+  }
+};
+
+/**
+ * Turn a null result from marketDataService into a typed tool error
+ */
+const requireData = <T>(toolName: string, label: string, result: CachedData<T | null>): CachedData<T> => {
+  checkDataLimit(toolName, result);
+  if (result.data === null || result.data === undefined) {
+    throw new ToolError('EXECUTION_FAILED', toolName, translate('tool.unavailable', { label }));
+  }
+  return result as CachedData<T>;
+};
+
+type CachedToolDefinition<TArgs, T> = Omit<ToolDefinition<TArgs, T>, 'execute' | 'summarize'> & {
+  execute: (args: TArgs) => Promise<CachedData<T>>;
+  summarize: (result: T, args: TArgs) => string;
+};
+
+/**
+ * Tool over cached market data: the hooks see the data itself, the registry
+ * also gets when it was fetched
+ */
+const cachedTool = <TArgs, T>(definition: CachedToolDefinition<TArgs, T>): ToolDefinition<TArgs, CachedData<T>> => ({
+  declaration: definition.declaration,
+  validate: definition.validate,
+  execute: async (args) => {
+    const result = await definition.execute(args);
+    checkDataLimit(definition.declaration.name || 'unknown', result);
+    return result;
+  },
+  timeoutMs: definition.timeoutMs,
+  format: (result, args) => definition.format ? definition.format(result.data, args) : result.data,
+  summarize: (result, args) => definition.summarize(result.data, args),
+  sources: definition.sources && (result => definition.sources!(result.data)),
+  facts: definition.facts && ((result, args) => definition.facts!(result.data, args)),
+  freshness: ({ fetchedAt, stale, quotaLimited }) => ({ fetchedAt, stale, ...(quotaLimited && { quotaLimited }) }),
+});
+
+type CountNoun = 'news' | 'prices' | 'results' | 'stocks' | 'points';
+
+const countSummary = (items: unknown[], noun: CountNoun): string =>
+  translate(items.length > 0 ? `tool.count.${noun}` : `tool.none.${noun}`, { count: items.length });
+
+/**
+ * News articles with a URL become citation sources
+ */
+const articleSources = (articles: { title: string; url: string }[]) =>
+  articles
+    .filter(article => article.url)
+    .map(article => ({ uri: article.url, title: article.title || article.url }));
+
+/**
+ * Verified facts for fact-checking answers; missing values (FMP returns 0
+ * or null for fields it lacks) are skipped
+ */
+const facts = (
+  tool: string,
+  ticker: string,
+  values: [FactMetric, number | null | undefined][]
+): VerifiedFact[] =>
+  values
+    .filter((entry): entry is [FactMetric, number] => typeof entry[1] === 'number' && isFinite(entry[1]) && entry[1] !== 0)
+    .map(([metric, value]) => ({ ticker: ticker.toUpperCase(), metric, value, tool }));
+
+const tickerArgs = (toolName: string) => (args: Record<string, unknown>) => ({
+  ticker: requiredString(toolName, args, 'ticker').toUpperCase(),
+});
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Register all financial data tools into the given registry, backed by the
+ * given market data service (e.g. one with a fixture provider for offline runs)
+ */
+export const registerFinancialTools = (registry: ToolRegistry, data: MarketDataService = marketDataService): void => {
+  registry.register(cachedTool({
+    declaration: getStockNewsTool,
+    validate: tickerArgs('get_stock_news'),
+    execute: ({ ticker }) => data.getStockNews(ticker),
+    summarize: (news) => countSummary(news, 'news'),
+    sources: articleSources,
+  }));
+
+  registry.register(cachedTool({
+    declaration: getMacroNewsTool,
+    validate: (args) => ({ query: requiredString('get_macro_news', args, 'query') }),
+    execute: ({ query }) => data.getMacroNews(query),
+    summarize: (news) => countSummary(news, 'news'),
+    sources: articleSources,
+  }));
+
+  registry.register(cachedTool({
+    declaration: getStockQuoteTool,
+    validate: tickerArgs('get_stock_quote'),
+    execute: async ({ ticker }) =>
+      requireData('get_stock_quote', translate('tool.label.quote', { ticker }), await data.getQuote(ticker)),
+    timeoutMs: 10000,
+    summarize: (quote: StockQuote) => {
+      const change = quote.changesPercentage || 0;
+      const price = [quote.symbol, quote.currency, formatNumber(quote.price)].filter(Boolean).join(' ');
+      return `${price} (${change >= 0 ? '+' : ''}${change.toFixed(2)}%)`;
+    },
+    facts: (quote: StockQuote, { ticker }) => facts('get_stock_quote', quote.symbol || ticker, [
+      ['price', quote.price],
+      ['change_percent', quote.changesPercentage],
+      ['pe', quote.pe],
+      ['eps', quote.eps],
+    ]),
+  }));
+
+  registry.register(cachedTool({
+    declaration: getCompanyProfileTool,
+    validate: tickerArgs('get_company_profile'),
+    execute: async ({ ticker }) =>
+      requireData('get_company_profile', translate('tool.label.profile', { ticker }), await data.getProfile(ticker)),
+    // Long descriptions waste context; keep the first few sentences
+    format: (profile: CompanyProfile) => ({ ...profile, description: profile.description.slice(0, 500) }),
+    summarize: (profile: CompanyProfile) => `${profile.companyName} · ${profile.sector || profile.industry}`,
+  }));
+
+  registry.register(cachedTool({
+    declaration: getIncomeStatementTool,
+    validate: (args) => ({
+      ticker: requiredString('get_income_statement', args, 'ticker').toUpperCase(),
+      period: oneOf('get_income_statement', args, 'period', ['annual', 'quarter'] as const, 'annual'),
+      limit: optionalInt(args, 'limit', 1, 10, 4),
+    }),
+    execute: ({ ticker, period, limit }) => data.getIncomeStatement(ticker, period, limit),
+    summarize: (statements: FinancialStatement[]) => statements.length > 0
+      ? translate('tool.count.statements', { count: statements.length, date: statements[0].date })
+      : translate('tool.none.statements'),
+  }));
+
+  registry.register(cachedTool({
+    declaration: getKeyMetricsTool,
+    validate: tickerArgs('get_key_metrics'),
+    execute: async ({ ticker }) =>
+      requireData('get_key_metrics', translate('tool.label.keyMetrics', { ticker }), await data.getKeyMetrics(ticker)),
+    summarize: (metrics: KeyMetrics) =>
+      `PER ${formatNumber(metrics.peRatio)}, PBV ${formatNumber(metrics.pbRatio)}, ROE ${formatNumber(metrics.roe)} (${metrics.date})`,
+    facts: (metrics: KeyMetrics, { ticker }) => facts('get_key_metrics', metrics.symbol || ticker, [
+      ['pe', metrics.peRatio],
+      ['pb', metrics.pbRatio],
+      ['roe', metrics.roe],
+      ['roa', metrics.roa],
+      ['der', metrics.debtToEquity],
+      ['dividend_yield', metrics.dividendYield],
+      ['current_ratio', metrics.currentRatio],
+    ]),
+  }));
+
+  registry.register(cachedTool({
+    declaration: getHistoricalPricesTool,
+    validate: (args) => ({
+      ticker: requiredString('get_historical_prices', args, 'ticker').toUpperCase(),
+      days: optionalInt(args, 'days', 1, 365, 30),
+    }),
+    execute: ({ ticker, days }) => data.getHistoricalPrices(ticker, days),
+    summarize: (prices) => countSummary(prices, 'prices'),
+  }));
+
+  registry.register(cachedTool({
+    declaration: searchStocksTool,
+    validate: (args) => ({ query: requiredString('search_stocks', args, 'query') }),
+    execute: ({ query }) => data.searchSymbols(query),
+    summarize: (results) => countSummary(results, 'results'),
+  }));
+
+  registry.register(cachedTool({
+    declaration: getMarketMoversTool,
+    validate: (args) => ({
+      direction: oneOf('get_market_movers', args, 'direction', ['gainers', 'losers'] as const),
+    }),
+    execute: ({ direction }) => data.getMarketMovers(direction),
+    summarize: (movers) => countSummary(movers, 'stocks'),
+  }));
+
+  registry.register(cachedTool({
+    declaration: getEconomicIndicatorTool,
+    validate: (args) => ({ indicator: optionalString(args, 'indicator', 'GDP') }),
+    execute: ({ indicator }) => data.getEconomicIndicator(indicator),
+    summarize: (data) => countSummary(data, 'points'),
+  }));
+};
+
+export default registerFinancialTools;
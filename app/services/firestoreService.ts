@@ -10,13 +10,15 @@ import {
     doc,
     getDoc,
     getDocs,
+    increment,
     orderBy,
     query,
     serverTimestamp,
     setDoc
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import { ChatSession, Message } from '../types';
+import { translate } from '../i18n';
+import { ChatSession, Message, TokenUsage, UsagePeriod } from '../types';
 import { authService } from './authService';
 
 /**
@@ -51,6 +53,7 @@ function cleanMessage(msg: Message): object {
     content: msg.content,
     role: msg.role,
     timestamp: msg.timestamp,
+    parentId: msg.parentId ?? null,
     attachments: msg.attachments?.map(att => removeUndefined({
       id: att.id,
       name: att.name,
@@ -64,6 +67,12 @@ function cleanMessage(msg: Message): object {
       uri: src.uri || '',
       title: src.title || '',
     })) || [],
+    analysis: msg.analysis,
+    toolCalls: msg.toolCalls,
+    route: msg.route,
+    followUps: msg.followUps,
+    usage: msg.usage,
+    factCheck: msg.factCheck,
   });
 }
 
@@ -106,9 +115,15 @@ class FirestoreService {
       }));
       
       await setDoc(chatRef, {
-        title: session.title || 'Chat Baru',
+        title: session.title || translate('chat.untitled'),
+        untitled: session.untitled || null,
         messages: cleanedMessages,
         attachments: cleanedAttachments,
+        summary: session.summary ? removeUndefined(session.summary) : null,
+        persona: session.persona || null,
+        activeLeafId: session.activeLeafId || null,
+        overview: session.overview ? removeUndefined(session.overview) : null,
+        usage: session.usage || null,
         createdAt: session.createdAt || Date.now(),
         updatedAt: serverTimestamp(),
       }, { merge: true });
@@ -135,8 +150,14 @@ class FirestoreService {
         sessions.push({
           id: doc.id,
           title: data.title,
+          untitled: data.untitled || undefined,
           messages: data.messages || [],
           attachments: data.attachments || [],
+          summary: data.summary || undefined,
+          persona: data.persona || undefined,
+          activeLeafId: data.activeLeafId || undefined,
+          overview: data.overview || undefined,
+          usage: data.usage || undefined,
           createdAt: data.createdAt?.toMillis?.() || data.createdAt || Date.now(),
           updatedAt: data.updatedAt?.toMillis?.() || data.updatedAt || Date.now(),
         });
@@ -164,8 +185,14 @@ class FirestoreService {
       return {
         id: snapshot.id,
         title: data.title,
+        untitled: data.untitled || undefined,
         messages: data.messages || [],
         attachments: data.attachments || [],
+        summary: data.summary || undefined,
+        persona: data.persona || undefined,
+        activeLeafId: data.activeLeafId || undefined,
+        overview: data.overview || undefined,
+        usage: data.usage || undefined,
         createdAt: data.createdAt?.toMillis?.() || data.createdAt || Date.now(),
         updatedAt: data.updatedAt?.toMillis?.() || data.updatedAt || Date.now(),
       };
@@ -208,12 +235,13 @@ class FirestoreService {
   }
 
   /**
-   * Create a new empty session
+   * Create a new empty session (without a title: the default one, marked untitled)
    */
-  createNewSession(title: string = 'Chat Baru'): ChatSession {
+  createNewSession(title?: string): ChatSession {
     return {
       id: `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      title,
+      title: title || translate('chat.untitled'),
+      untitled: !title,
       messages: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -221,6 +249,51 @@ class FirestoreService {
     };
   }
 
+  /**
+   * Add token usage to the user's per-period totals
+   * (users/{uid}/usage/{YYYY-MM-DD} and users/{uid}/usage/{YYYY-MM})
+   */
+  async addUsage(usage: TokenUsage, periods: string[]): Promise<void> {
+    try {
+      const userId = this.getUserId();
+      await Promise.all(periods.map(period => setDoc(doc(db, 'users', userId, 'usage', period), {
+        promptTokens: increment(usage.promptTokens),
+        completionTokens: increment(usage.completionTokens),
+        toolTokens: increment(usage.toolTokens),
+        costUsd: increment(usage.costUsd),
+        requests: increment(1),
+        updatedAt: serverTimestamp(),
+      }, { merge: true })));
+    } catch (error) {
+      console.error('❌ Error saving usage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The user's usage total for a period (see addUsage); null when it cannot be read
+   */
+  async getUsage(period: string): Promise<UsagePeriod | null> {
+    try {
+      const userId = this.getUserId();
+      const snapshot = await getDoc(doc(db, 'users', userId, 'usage', period));
+      const data = snapshot.exists() ? snapshot.data() : {};
+      return {
+        period,
+        usage: {
+          promptTokens: data.promptTokens || 0,
+          completionTokens: data.completionTokens || 0,
+          toolTokens: data.toolTokens || 0,
+          costUsd: data.costUsd || 0,
+        },
+        requests: data.requests || 0,
+      };
+    } catch (error) {
+      console.error('❌ Error getting usage:', error);
+      return null;
+    }
+  }
+
   /**
    * Search sessions by title
    */
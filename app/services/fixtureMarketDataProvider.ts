@@ -0,0 +1,97 @@
+/**
+ * Fixture Market Data Provider
+ *
+ * Offline, deterministic MarketDataProvider that serves recorded FMP
+ * payloads from JSON files instead of calling the API. Files are laid out
+ * by fixturePath() (see fmpProvider.ts):
+ *
+ *   <baseDir>/quote/BBCA.JK.json
+ *   <baseDir>/profile/BBCA.JK.json
+ *   <baseDir>/key-metrics-ttm/BBCA.JK.json
+ *   <baseDir>/income-statement/annual_BBCA.JK.json
+ *   <baseDir>/historical-price-eod/light/BBCA.JK.json
+ *   <baseDir>/search-symbol/bank-central.json
+ *   <baseDir>/biggest-gainers/default.json
+ *   <baseDir>/economic-indicators/GDP.json
+ *
+ * The repo ships fixtures for the seeded IDX tickers in fixtures/market/.
+ * The committed set is SYNTHETIC: made-up prices and fundamentals in the FMP
+ * response format, not recorded market data. Replace it with real payloads
+ * via `npm run record-fixtures` (scripts/record-market-fixtures.ts). A missing
+ * file means "no data" (null / []), like an empty API response.
+ *
+ * Without a baseDir the bundled fixtures/market/ set is served (fixture
+ * mode builds only, see getBundledFixtures). With one
+ * (AppConfig.MARKET_DATA.FIXTURES_DIR), files are read with expo-file-system;
+ * elsewhere (e.g. Node), pass `readFile`.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { FmpPayloadProvider, fixturePath } from "./fmpProvider";
+
+// The bundled set (~190 JSON files) is required on first use, and only when
+// fixture mode is set at build time: Expo inlines EXPO_PUBLIC_ variables, so
+// production builds against FMP drop the require and never bundle the files
+let bundledFixtures: Record<string, unknown> | null = null;
+
+const getBundledFixtures = (): Record<string, unknown> => {
+  if (bundledFixtures) return bundledFixtures;
+  if (process.env.EXPO_PUBLIC_MARKET_DATA_PROVIDER === 'fixture') {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    bundledFixtures = require("../../fixtures/market").MARKET_FIXTURES as Record<string, unknown>;
+    return bundledFixtures;
+  }
+  return {};
+};
+
+export interface FixtureMarketDataProviderOptions {
+  /** Directory (or file:// URI) containing the fixture files (default: the bundled fixtures/market/) */
+  baseDir?: string;
+  maxListItems?: number;
+  /** Read a file as UTF-8 text; throws when it does not exist */
+  readFile?: (path: string) => Promise<string>;
+}
+
+export class FixtureMarketDataProvider extends FmpPayloadProvider {
+  readonly name = 'fixture' as const;
+  private baseDir: string;
+  private readFile: (path: string) => Promise<string>;
+
+  constructor(options: FixtureMarketDataProviderOptions = {}) {
+    super(options.maxListItems);
+    const baseDir = options.baseDir || '';
+    this.baseDir = !baseDir || baseDir.endsWith('/') ? baseDir : `${baseDir}/`;
+    this.readFile = options.readFile || (path => FileSystem.readAsStringAsync(path));
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  protected async load(path: string, params: Record<string, string> = {}): Promise<unknown | null> {
+    const relativePath = fixturePath(path, params);
+    if (!this.baseDir) {
+      const payload = getBundledFixtures()[relativePath];
+      if (payload === undefined) console.warn(`🧪 No bundled market data fixture: ${relativePath}`);
+      return payload ?? null;
+    }
+
+    const file = `${this.baseDir}${relativePath}`;
+    let text: string;
+    try {
+      text = await this.readFile(file);
+    } catch {
+      console.warn(`🧪 No market data fixture: ${file}`);
+      return null;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      console.error(`🧪 Invalid market data fixture ${file}:`, error);
+      return null;
+    }
+  }
+}
+
+export default FixtureMarketDataProvider;
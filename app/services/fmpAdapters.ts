@@ -0,0 +1,146 @@
+/**
+ * FMP Adapters
+ *
+ * Map raw Financial Modeling Prep payloads into the canonical market-data
+ * types (see types/index.ts). Missing or malformed fields become 0 / '' so
+ * consumers never see undefined. Field names of both the stable and the
+ * older v3 API are accepted where they differ.
+ */
+
+import {
+  CompanyProfile,
+  EconomicIndicatorPoint,
+  FinancialStatement,
+  KeyMetrics,
+  MarketMover,
+  PricePoint,
+  StatementPeriod,
+  StockQuote,
+  SymbolSearchResult,
+} from "../types";
+
+/** Raw FMP JSON object */
+export type FmpPayload = Record<string, any>;
+
+const num = (...values: unknown[]): number => {
+  for (const value of values) {
+    const parsed = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof parsed === 'number' && isFinite(parsed)) return parsed;
+  }
+  return 0;
+};
+
+const str = (...values: unknown[]): string => {
+  for (const value of values) {
+    if (typeof value === 'string' && value) return value;
+  }
+  return '';
+};
+
+/**
+ * First object of an FMP response (single-item endpoints return an array)
+ */
+export const firstItem = (data: unknown): FmpPayload | null => {
+  const item = Array.isArray(data) ? data[0] : data;
+  return item && typeof item === 'object' ? item as FmpPayload : null;
+};
+
+/**
+ * Object items of an FMP list response
+ */
+export const listItems = (data: unknown): FmpPayload[] =>
+  Array.isArray(data) ? data.filter(item => item && typeof item === 'object') : [];
+
+export const toStockQuote = (raw: FmpPayload, symbol: string): StockQuote => ({
+  symbol: str(raw.symbol, symbol),
+  name: str(raw.name, raw.companyName),
+  exchange: str(raw.exchange, raw.exchangeShortName),
+  currency: str(raw.currency), // Not in FMP quotes; filled in by marketDataService
+  price: num(raw.price),
+  change: num(raw.change),
+  changesPercentage: num(raw.changePercentage, raw.changesPercentage),
+  open: num(raw.open),
+  previousClose: num(raw.previousClose),
+  dayLow: num(raw.dayLow),
+  dayHigh: num(raw.dayHigh),
+  yearLow: num(raw.yearLow),
+  yearHigh: num(raw.yearHigh),
+  priceAvg50: num(raw.priceAvg50),
+  priceAvg200: num(raw.priceAvg200),
+  volume: num(raw.volume),
+  avgVolume: num(raw.avgVolume),
+  marketCap: num(raw.marketCap),
+  pe: num(raw.pe),
+  eps: num(raw.eps),
+  earningsAnnouncement: str(raw.earningsAnnouncement),
+});
+
+export const toCompanyProfile = (raw: FmpPayload, symbol: string): CompanyProfile => ({
+  symbol: str(raw.symbol, symbol),
+  companyName: str(raw.companyName, raw.name),
+  currency: str(raw.currency),
+  exchange: str(raw.exchangeShortName, raw.exchange),
+  industry: str(raw.industry),
+  sector: str(raw.sector),
+  country: str(raw.country),
+  description: str(raw.description),
+  ceo: str(raw.ceo),
+  website: str(raw.website),
+  employees: Math.round(num(raw.fullTimeEmployees)),
+  marketCap: num(raw.marketCap, raw.mktCap),
+  price: num(raw.price),
+  beta: num(raw.beta),
+  ipoDate: str(raw.ipoDate),
+});
+
+export const toFinancialStatement = (raw: FmpPayload, period: StatementPeriod): FinancialStatement => ({
+  date: str(raw.date),
+  period: str(raw.period, period),
+  currency: str(raw.reportedCurrency),
+  revenue: num(raw.revenue),
+  grossProfit: num(raw.grossProfit),
+  operatingIncome: num(raw.operatingIncome),
+  netIncome: num(raw.netIncome),
+  eps: num(raw.eps),
+});
+
+export const toKeyMetrics = (raw: FmpPayload, symbol: string): KeyMetrics => ({
+  symbol: str(raw.symbol, symbol),
+  date: str(raw.date) || new Date().toISOString(),
+  peRatio: num(raw.peRatioTTM, raw.priceToEarningsRatioTTM),
+  pbRatio: num(raw.pbRatioTTM, raw.priceToBookRatioTTM),
+  priceToSalesRatio: num(raw.priceToSalesRatioTTM),
+  debtToEquity: num(raw.debtToEquityTTM, raw.debtToEquityRatioTTM),
+  currentRatio: num(raw.currentRatioTTM),
+  roe: num(raw.roeTTM, raw.returnOnEquityTTM),
+  roa: num(raw.roaTTM, raw.returnOnAssetsTTM),
+  dividendYield: num(raw.dividendYieldTTM),
+  enterpriseValue: num(raw.enterpriseValueTTM),
+});
+
+export const toPricePoint = (raw: FmpPayload): PricePoint => ({
+  date: str(raw.date),
+  price: num(raw.close, raw.price),
+  volume: num(raw.volume),
+});
+
+export const toSymbolSearchResult = (raw: FmpPayload): SymbolSearchResult => ({
+  symbol: str(raw.symbol),
+  name: str(raw.name),
+  exchange: str(raw.exchangeShortName, raw.exchange),
+  currency: str(raw.currency),
+});
+
+export const toMarketMover = (raw: FmpPayload): MarketMover => ({
+  symbol: str(raw.symbol),
+  name: str(raw.name, raw.companyName),
+  price: num(raw.price),
+  change: num(raw.change),
+  changesPercentage: num(raw.changesPercentage, raw.changePercentage),
+});
+
+export const toEconomicIndicatorPoint = (raw: FmpPayload, name: string): EconomicIndicatorPoint => ({
+  name: str(raw.name, name),
+  date: str(raw.date),
+  value: num(raw.value),
+});
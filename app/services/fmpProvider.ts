@@ -0,0 +1,199 @@
+/**
+ * FMP Provider
+ *
+ * MarketDataProvider for the Financial Modeling Prep stable API. Raw
+ * payloads are mapped by fmpAdapters.ts. FmpPayloadProvider holds the
+ * endpoint → domain mapping so that any source of FMP payloads (HTTP here,
+ * recorded files in fixtureMarketDataProvider.ts) behaves the same.
+ * HTTP calls are counted by quotaTracker and skipped while FMP is limited.
+ */
+
+import { isRealKey } from "../constants/config";
+import {
+  CompanyProfile,
+  EconomicIndicatorPoint,
+  FinancialStatement,
+  KeyMetrics,
+  MarketMover,
+  MoverDirection,
+  PricePoint,
+  StatementPeriod,
+  StockQuote,
+  SymbolSearchResult,
+} from "../types";
+import {
+  firstItem,
+  listItems,
+  toCompanyProfile,
+  toEconomicIndicatorPoint,
+  toFinancialStatement,
+  toKeyMetrics,
+  toMarketMover,
+  toPricePoint,
+  toStockQuote,
+  toSymbolSearchResult,
+} from "./fmpAdapters";
+import type { CacheKind } from "./marketDataCache";
+import type { MarketDataProvider, MarketDataProviderName } from "./marketDataProvider";
+import { quotaTracker } from "./quotaTracker";
+
+// Request parameters that do not change which data is returned
+const NON_KEY_PARAMS = ['apikey', 'limit'];
+
+// Stable API endpoint per data type (movers: per direction)
+const ENDPOINTS = {
+  quote: 'quote',
+  profile: 'profile',
+  statements: 'income-statement',
+  keyMetrics: 'key-metrics-ttm',
+  history: 'historical-price-eod/light',
+  search: 'search-symbol',
+  indicator: 'economic-indicators',
+  gainers: 'biggest-gainers',
+  losers: 'biggest-losers',
+} as const;
+
+/**
+ * Relative path of the fixture file for an FMP request,
+ * e.g. quote/BBCA.JK.json, income-statement/annual_BBCA.JK.json
+ */
+export const fixturePath = (path: string, params: Record<string, string> = {}): string => {
+  const key = Object.keys(params)
+    .filter(name => !NON_KEY_PARAMS.includes(name))
+    .sort()
+    .map(name => params[name].replace(/[^\w.\-]+/g, '-'))
+    .join('_');
+  return `${path}/${key || 'default'}.json`;
+};
+
+// ============================================
+// ENDPOINT MAPPING
+// ============================================
+
+export abstract class FmpPayloadProvider implements MarketDataProvider {
+  abstract readonly name: MarketDataProviderName;
+  protected readonly maxListItems: number;
+
+  constructor(maxListItems: number = 10) {
+    this.maxListItems = maxListItems;
+  }
+
+  abstract isConfigured(): boolean;
+
+  /**
+   * Raw payload of an FMP stable endpoint; null when unavailable
+   */
+  protected abstract load(path: string, params?: Record<string, string>): Promise<unknown | null>;
+
+  async getQuote(symbol: string): Promise<StockQuote | null> {
+    const item = firstItem(await this.load(ENDPOINTS.quote, { symbol }));
+    return item ? toStockQuote(item, symbol) : null;
+  }
+
+  async getProfile(symbol: string): Promise<CompanyProfile | null> {
+    const item = firstItem(await this.load(ENDPOINTS.profile, { symbol }));
+    return item ? toCompanyProfile(item, symbol) : null;
+  }
+
+  async getIncomeStatement(symbol: string, period: StatementPeriod, limit: number): Promise<FinancialStatement[]> {
+    const data = await this.load(ENDPOINTS.statements, { symbol, period, limit: String(limit) });
+    return listItems(data).slice(0, limit).map(item => toFinancialStatement(item, period));
+  }
+
+  async getKeyMetrics(symbol: string): Promise<KeyMetrics | null> {
+    const item = firstItem(await this.load(ENDPOINTS.keyMetrics, { symbol }));
+    return item ? toKeyMetrics(item, symbol) : null;
+  }
+
+  async getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]> {
+    const data = await this.load(ENDPOINTS.history, { symbol });
+    return listItems(data).slice(0, days).map(toPricePoint);
+  }
+
+  async searchSymbols(query: string): Promise<SymbolSearchResult[]> {
+    const data = await this.load(ENDPOINTS.search, { query, limit: String(this.maxListItems) });
+    return listItems(data).slice(0, this.maxListItems).map(toSymbolSearchResult);
+  }
+
+  async getMarketMovers(direction: MoverDirection): Promise<MarketMover[]> {
+    const data = await this.load(ENDPOINTS[direction]);
+    return listItems(data).slice(0, this.maxListItems).map(toMarketMover);
+  }
+
+  async getEconomicIndicator(name: string): Promise<EconomicIndicatorPoint[]> {
+    const data = await this.load(ENDPOINTS.indicator, { name });
+    return listItems(data).slice(0, this.maxListItems).map(item => toEconomicIndicatorPoint(item, name));
+  }
+}
+
+// ============================================
+// HTTP PROVIDER
+// ============================================
+
+export interface FmpProviderOptions {
+  apiKey: string;
+  baseUrl: string;
+  maxListItems?: number;
+  /** Called with every successful payload and its fixture path, e.g. to record fixtures */
+  onPayload?: (fixturePath: string, data: unknown) => void;
+}
+
+export class FmpProvider extends FmpPayloadProvider {
+  readonly name = 'fmp' as const;
+  readonly quota = 'fmp' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private onPayload?: (fixturePath: string, data: unknown) => void;
+
+  constructor(options: FmpProviderOptions) {
+    super(options.maxListItems);
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl;
+    this.onPayload = options.onPayload;
+  }
+
+  isConfigured(): boolean {
+    return isRealKey(this.apiKey);
+  }
+
+  quotaEndpoint(kind: CacheKind, key: string): string | undefined {
+    if (kind === 'movers') return ENDPOINTS[key as MoverDirection];
+    return kind in ENDPOINTS ? ENDPOINTS[kind as keyof typeof ENDPOINTS] : undefined;
+  }
+
+  /**
+   * GET an FMP stable endpoint; null when not configured, over quota or on any failure
+   */
+  protected async load(path: string, params: Record<string, string> = {}): Promise<unknown | null> {
+    if (!this.isConfigured()) return null;
+    if (!(await quotaTracker.canCall('fmp', path))) {
+      console.warn(`🚦 FMP ${path} skipped: data limit reached`);
+      return null;
+    }
+
+    try {
+      const query = new URLSearchParams({ ...params, apikey: this.apiKey });
+      const response = await fetch(`${this.baseUrl}/${path}?${query.toString()}`);
+      await quotaTracker.record('fmp', path, response);
+      if (!response.ok) {
+        console.warn(`FMP ${path} HTTP ${response.status}`);
+        return null;
+      }
+
+      const data = await response.json();
+      const errorMessage = data?.['Error Message'] || data?.error;
+      if (errorMessage) {
+        console.warn(`FMP ${path} API Error:`, errorMessage);
+        return null;
+      }
+
+      this.onPayload?.(fixturePath(path, params), data);
+      return data;
+    } catch (error) {
+      console.error(`FMP ${path} Error:`, error);
+      return null;
+    }
+  }
+}
+
+export default FmpProvider;
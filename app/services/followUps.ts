@@ -0,0 +1,63 @@
+/**
+ * Follow-up Suggestions
+ *
+ * JSON schema and parser for the 2-4 follow-up questions suggested after
+ * each answer (shown as tappable chips above the input box).
+ */
+
+import { Schema, Type } from "@google/genai";
+import { AppConfig } from "../constants/config";
+import { Language } from "../types";
+import { parseJsonResponse } from "./llmProvider";
+
+export const FOLLOW_UP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      description: "2-4 pertanyaan lanjutan singkat dari sudut pandang pengguna.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["questions"],
+};
+
+export const FOLLOW_UP_PROMPTS: Record<Language, string> = {
+  id: `Sarankan 2-4 pertanyaan lanjutan yang kemungkinan ingin diajukan pengguna setelah jawaban di atas.
+- Tulis sebagai pertanyaan/perintah singkat dari sudut pandang pengguna (maksimal 8 kata), contoh: "Bandingkan dengan TLKM", "Lihat rasio utang 5 tahun".
+- Gunakan bahasa Indonesia.
+- Jangan mengulang pertanyaan yang sudah dijawab.
+Balas dalam JSON sesuai skema.`,
+  en: `Suggest 2-4 follow-up questions the user is likely to ask after the answer above.
+- Write them as short questions/commands from the user's point of view (at most 8 words), e.g. "Compare with TLKM", "Show 5-year debt ratio".
+- Write in English.
+- Do not repeat questions that were already answered.
+Reply in JSON matching the schema.`,
+};
+
+/**
+ * Parse model output into a clean list of questions. Returns an empty list
+ * when the output does not parse or has fewer than the minimum.
+ */
+export const parseFollowUps = (text: string): string[] => {
+  try {
+    const data = parseJsonResponse(text);
+    if (!data || !Array.isArray(data.questions)) return [];
+
+    const seen = new Set<string>();
+    const questions = data.questions
+      .filter((item: unknown): item is string => typeof item === 'string')
+      .map((item: string) => item.trim().replace(/^(?:[-•*]|\d+[.)])\s+/, '').replace(/^["']|["']$/g, '').trim())
+      .filter((item: string) => {
+        const key = item.toLowerCase();
+        if (!item || item.length > AppConfig.CHAT.MAX_FOLLOW_UP_LENGTH || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, AppConfig.CHAT.MAX_FOLLOW_UPS);
+
+    return questions.length >= AppConfig.CHAT.MIN_FOLLOW_UPS ? questions : [];
+  } catch {
+    return [];
+  }
+};
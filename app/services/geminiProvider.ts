@@ -0,0 +1,193 @@
+/**
+ * Gemini Provider
+ * LlmProvider implementation backed by the @google/genai SDK.
+ * The SDK client can be injected (e.g. FakeGenAiClient in test/).
+ */
+
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GoogleGenAI,
+  Part,
+} from "@google/genai";
+import Constants from 'expo-constants';
+import { GroundingChunk, GroundingSource } from "../types";
+import { AiError } from "./aiErrors";
+import { LlmMessage, LlmPart, LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./llmProvider";
+
+/**
+ * The part of the GoogleGenAI client this provider uses
+ */
+export interface GenAiClient {
+  models: {
+    generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+    generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  };
+}
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model: string;
+  /** Client to use instead of creating a GoogleGenAI from the API key */
+  client?: GenAiClient;
+}
+
+/**
+ * Convert a provider-neutral part to a Gemini Part
+ */
+const toGeminiPart = (part: LlmPart): Part => {
+  if (part.raw) return part.raw as Part;
+  if (part.functionCall) {
+    return { functionCall: { ...part.functionCall } };
+  }
+  if (part.functionResponse) {
+    return { functionResponse: { ...part.functionResponse } };
+  }
+  if (part.inlineData) {
+    return { inlineData: part.inlineData };
+  }
+  return { text: part.text || '', thought: part.thought };
+};
+
+/**
+ * Convert a Gemini Part to a provider-neutral part (keeping the original as raw)
+ */
+const fromGeminiPart = (part: Part): LlmPart => ({
+  text: part.text,
+  thought: part.thought,
+  inlineData: part.inlineData?.data
+    ? { mimeType: part.inlineData.mimeType || 'application/octet-stream', data: part.inlineData.data }
+    : undefined,
+  functionCall: part.functionCall
+    ? { id: part.functionCall.id, name: part.functionCall.name || '', args: part.functionCall.args || {} }
+    : undefined,
+  raw: part,
+});
+
+/**
+ * Extract sources from grounding metadata (Google Search)
+ */
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+  const sources: GroundingSource[] = [];
+
+  if (chunks) {
+    chunks.forEach((chunk) => {
+      if (chunk.web) {
+        sources.push({
+          uri: chunk.web.uri,
+          title: chunk.web.title || new URL(chunk.web.uri).hostname,
+        });
+      }
+    });
+  }
+
+  return sources;
+};
+
+/**
+ * Token counts from usageMetadata (thinking tokens are billed as output)
+ */
+const extractUsage = (response: GenerateContentResponse): LlmUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: (meta.promptTokenCount || 0) + (meta.toolUsePromptTokenCount || 0),
+    completionTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  };
+};
+
+// Finish reasons meaning the answer was withheld by safety filters
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const fromGeminiResponse = (response: GenerateContentResponse): LlmResponse => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AiError('safety', {
+      cause: response.promptFeedback?.blockReason || finishReason,
+    });
+  }
+
+  const parts = (response.candidates?.[0]?.content?.parts || []).map(fromGeminiPart);
+  return {
+    text: parts.filter(p => p.text && !p.thought).map(p => p.text).join(''),
+    parts,
+    toolCalls: parts.filter(p => p.functionCall).map(p => p.functionCall!),
+    sources: extractSources(response),
+    usage: extractUsage(response),
+  };
+};
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+  readonly supportsGrounding = true;
+  readonly model: string;
+  private apiKey: string;
+  private client: GenAiClient | null;
+
+  constructor(options: GeminiProviderOptions) {
+    this.model = options.model;
+    this.client = options.client || null;
+    this.apiKey = options.apiKey || Constants.expoConfig?.extra?.GEMINI_API_KEY || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey || !!this.client;
+  }
+
+  /**
+   * Injected client, or an SDK client created on first use rather than at import time
+   */
+  private getClient(): GenAiClient {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: LlmRequest): GenerateContentParameters {
+    const hasTools = !!request.tools && request.tools.length > 0;
+    const tools = request.grounding
+      ? [{ googleSearch: {} }]
+      : hasTools ? [{ functionDeclarations: request.tools }] : undefined;
+    return {
+      model: this.model,
+      contents: request.messages.map((msg: LlmMessage) => ({
+        role: msg.role,
+        parts: msg.parts.map(toGeminiPart),
+      })),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        tools,
+        toolConfig: hasTools && !request.grounding && request.toolMode === 'none'
+          ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } }
+          : undefined,
+        responseMimeType: request.responseSchema ? 'application/json' : undefined,
+        responseSchema: request.responseSchema,
+        abortSignal: request.signal,
+      },
+    };
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.getClient().models.generateContent(this.buildParams(request));
+    return fromGeminiResponse(response);
+  }
+
+  async *stream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    const stream = await this.getClient().models.generateContentStream(this.buildParams(request));
+    for await (const chunk of stream) {
+      yield fromGeminiResponse(chunk);
+    }
+  }
+}
+
+export default GeminiProvider;
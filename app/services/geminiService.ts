@@ -2,36 +2,96 @@
  * Gemini Service - Rewritten following finAdvisor Architecture
  * 
  * Features:
- * - Uses @google/genai SDK properly
- * - Function calling (Tools): get_stock_news, get_macro_news
- * - Google Search grounding for real-time data
+ * - Provider-agnostic: Gemini or any OpenAI-compatible backend (see llmProvider.ts),
+ *   selected through AppConfig.API.PROVIDER
+ * - Injectable provider and tool registry (GeminiServiceOptions); tests and
+ *   offline runs can use GeminiProvider with a FakeGenAiClient (test/)
+ * - Function calling (Tools): news, quotes, profiles, financials, key metrics,
+ *   historical prices, symbol search, market movers, economic indicators
+ * - Multi-round tool loop with iteration cap and time budget
+ * - Streaming responses with abort support
+ * - Typed errors (AiError) with retry, exponential backoff and per-attempt timeouts
+ * - Context budgeting with rolling summary of older turns
+ * - Structured mode: JSON stock analysis via responseSchema
+ * - 2-4 suggested follow-up questions generated with each answer
+ * - Session overview (title, summary, tickers) for the History list
+ * - Token usage and estimated cost per turn, added to the user's totals (usageService.ts)
+ * - Numbered citations: news articles from tool results become sources
+ * - Fact check: numbers in the answer compared with the quote/metrics data
+ *   fetched during the turn (see factCheck.ts)
+ * - Bilingual system prompt (Indonesian / English) following the UI language
+ * - Personas (per session) combined with the user's risk profile
+ * - Query routing: Google Search grounding for news/web facts, tools for data
  * - PDF/Excel/CSV file analysis via inline data
+ * - Prompt-injection defenses: untrusted files/tool results are delimited,
+ *   scanned and sanitized (see promptSafety.ts)
  * - Unbiased, data-driven responses
  */
 
-import { FunctionDeclaration, GenerateContentResponse, GoogleGenAI, Part, Tool, Type } from "@google/genai";
-import Constants from 'expo-constants';
-import { Attachment, GroundingChunk, GroundingSource, Message } from "../types";
-import { fetchMacroNews, fetchStockNews } from "./externalDataService";
-
-// Get API Key from environment
-const API_KEY = Constants.expoConfig?.extra?.GEMINI_API_KEY || 
-                process.env.EXPO_PUBLIC_GEMINI_API_KEY || 
-                '';
-
-// Initialize Gemini SDK
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// System Instruction - Following finAdvisor pattern
-const SYSTEM_INSTRUCTION = `
+import { AppConfig, FeatureFlags } from "../constants/config";
+import {
+  Attachment,
+  ConversationSummary,
+  FactCheckResult,
+  GroundingSource,
+  Language,
+  Message,
+  PersonaId,
+  QueryRoute,
+  RiskProfile,
+  StockAnalysis,
+  TokenUsage,
+  ToolCallTrace,
+  VerifiedFact,
+} from "../types";
+import { getLanguage, translate } from "../i18n";
+import { base64ToText, extractTextFromPDF } from "../utils/helpers";
+import { AiError, toAiError, withRetry } from "./aiErrors";
+import { CITATION_INSTRUCTIONS, CitationCollector } from "./citations";
+import { budgetHistory, estimateTokens, formatTranscript } from "./conversationContext";
+import { checkFacts } from "./factCheck";
+import { registerFinancialTools } from "./financialTools";
+import { FOLLOW_UP_PROMPTS, FOLLOW_UP_SCHEMA, parseFollowUps } from "./followUps";
+import {
+  createLlmProvider,
+  LlmMessage,
+  LlmPart,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmToolCall,
+  LlmUsage,
+} from "./llmProvider";
+import { buildPersonaInstruction } from "./personas";
+import {
+  sanitizeDocumentText,
+  sanitizeToolResult,
+  scanForInjection,
+  UNTRUSTED_CONTENT_INSTRUCTIONS,
+  untrustedMarkers,
+  wrapUntrusted,
+} from "./promptSafety";
+import { routeQuery } from "./queryRouter";
+import {
+  ParsedSessionOverview,
+  parseSessionOverview,
+  SESSION_OVERVIEW_INSTRUCTIONS,
+  SESSION_OVERVIEW_PROMPTS,
+  SESSION_OVERVIEW_SCHEMA,
+} from "./sessionOverview";
+import { parseStockAnalysis, STOCK_ANALYSIS_SCHEMA, STRUCTURED_ANALYSIS_PROMPTS } from "./stockAnalysis";
+import { ToolRegistry, toolRegistry } from "./toolRegistry";
+import { addUsage, emptyUsage, toTokenUsage, usageService } from "./usageService";
+
+// System Instruction - Following finAdvisor pattern, one per UI language
+const SYSTEM_INSTRUCTIONS: Record<Language, string> = {
+  id: `
 Anda adalah Asisten Penasihat Keuangan (Financial Advisor Assistant) kelas dunia yang cerdas dan profesional.
 Tugas utama Anda adalah membantu pengguna menganalisis pasar saham, tren makro ekonomi, dan laporan keuangan perusahaan.
 
 Panduan Gaya & Nada:
 1.  **Profesional namun Ramah:** Gunakan bahasa Indonesia yang baik, baku, namun tidak kaku.
-2.  **Data-Driven:** Gunakan data yang disediakan oleh "Tools" (Berita Saham/Makro) untuk memberikan jawaban terkini. JANGAN mengarang data pasar jika tidak ada di tools.
+2.  **Data-Driven:** Gunakan data yang disediakan oleh "Tools" (Harga, Fundamental, Berita Saham/Makro) untuk memberikan jawaban terkini. JANGAN mengarang data pasar jika tidak ada di tools.
 3.  **Analisis Berita:** Jika Anda menerima data berita dari tools, rangkum poin utamanya dan jelaskan dampaknya terhadap pasar atau saham terkait.
 4.  **Konteks Laporan:** Jika pengguna mengunggah file (PDF/Excel), analisislah angka-angka kunci seperti Revenue, Net Income, Total Assets, Liabilities, dan hitung rasio keuangan jika memungkinkan.
 5.  **Penyangkalan (Disclaimer):** Selalu ingatkan bahwa saran Anda adalah untuk tujuan informasi dan edukasi, bukan financial advice resmi.
@@ -39,6 +99,10 @@ Panduan Gaya & Nada:
 Tools & Sumber Data:
 - Gunakan \`get_stock_news\` jika pengguna bertanya tentang saham spesifik (contoh: BBCA, ASII, AAPL, GOTO).
 - Gunakan \`get_macro_news\` jika pengguna bertanya tentang kondisi ekonomi umum, inflasi, suku bunga, atau kebijakan pemerintah.
+- Gunakan \`get_stock_quote\` untuk harga terkini dan \`get_historical_prices\` untuk tren harga.
+- Gunakan \`get_company_profile\`, \`get_income_statement\`, dan \`get_key_metrics\` untuk analisis fundamental dan valuasi.
+- Gunakan \`search_stocks\` jika ticker tidak jelas, \`get_market_movers\` untuk top gainers/losers, dan \`get_economic_indicator\` untuk data makro (GDP, CPI, dll).
+- JANGAN menebak harga atau rasio keuangan; panggil tools yang sesuai terlebih dahulu.
 - Jika tools tidak memberikan hasil yang cukup, gunakan pengetahuan internal Anda atau Google Search grounding untuk data terkini.
 
 Kemampuan Analisis File:
@@ -46,243 +110,781 @@ Kemampuan Analisis File:
 - Untuk laporan keuangan, fokus pada: Revenue, Net Income, Total Assets, Total Liabilities, Equity.
 - Hitung rasio seperti: Net Profit Margin, Debt-to-Equity Ratio, ROE jika data tersedia.
 - Berikan kesimpulan kesehatan keuangan perusahaan berdasarkan data.
-`;
+`,
+  en: `
+You are a world-class, intelligent and professional Financial Advisor Assistant.
+Your main task is to help users analyze stock markets, macroeconomic trends, and company financial reports.
+
+Style & Tone Guidelines:
+1.  **Professional yet Friendly:** Use clear, proper English that is not stiff.
+2.  **Data-Driven:** Use the data provided by the "Tools" (prices, fundamentals, stock/macro news) to give up-to-date answers. DO NOT make up market data that is not in the tools.
+3.  **News Analysis:** When you receive news from the tools, summarize the key points and explain their impact on the market or the related stock.
+4.  **Report Context:** When the user uploads a file (PDF/Excel), analyze key figures such as Revenue, Net Income, Total Assets, Liabilities, and compute financial ratios where possible.
+5.  **Disclaimer:** Always remind the user that your advice is for information and education purposes, not official financial advice.
+
+Tools & Data Sources:
+- Use \`get_stock_news\` when the user asks about a specific stock (e.g. BBCA, ASII, AAPL, GOTO).
+- Use \`get_macro_news\` when the user asks about general economic conditions, inflation, interest rates, or government policy.
+- Use \`get_stock_quote\` for current prices and \`get_historical_prices\` for price trends.
+- Use \`get_company_profile\`, \`get_income_statement\`, and \`get_key_metrics\` for fundamental analysis and valuation.
+- Use \`search_stocks\` when the ticker is unclear, \`get_market_movers\` for top gainers/losers, and \`get_economic_indicator\` for macro data (GDP, CPI, etc.).
+- DO NOT guess prices or financial ratios; call the appropriate tools first.
+- If the tools do not return enough data, use your internal knowledge or Google Search grounding for current data.
+
+File Analysis Capabilities:
+- You CAN read and analyze PDF, Excel, and CSV files uploaded by the user.
+- For financial reports, focus on: Revenue, Net Income, Total Assets, Total Liabilities, Equity.
+- Compute ratios such as Net Profit Margin, Debt-to-Equity Ratio, and ROE when data is available.
+- Give a conclusion on the company's financial health based on the data.
+
+Language: Always respond in English.
+`,
+};
+
+// Tools configuration - built from the tool registry (see financialTools.ts)
+// Google Search grounding cannot be combined with function calling in gemini-2.5-flash,
+// so each turn is routed to one of them (see queryRouter.ts)
+registerFinancialTools(toolRegistry);
 
 // ============================================
-// FUNCTION DECLARATIONS (Tools)
+// MAIN SERVICE CLASS
 // ============================================
 
-const getStockNewsTool: FunctionDeclaration = {
-  name: "get_stock_news",
-  description: "Mengambil berita terbaru untuk kode saham (ticker) tertentu dari Financial Modeling Prep. Gunakan ini ketika user bertanya tentang saham spesifik.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      ticker: {
-        type: Type.STRING,
-        description: "Kode saham (Ticker Symbol), contoh: BBCA, TLKM, AAPL, GOTO, ASII.",
-      },
-    },
-    required: ["ticker"],
-  },
+type ChatHistoryItem = LlmMessage;
+
+export interface AdviceOptions {
+  /** Rolling summary stored on the ChatSession (see conversationContext.ts) */
+  summary?: ConversationSummary;
+  /** Also return a structured StockAnalysis (see stockAnalysis.ts) */
+  structured?: boolean;
+  /** Analysis persona of the session (see personas.ts) */
+  persona?: PersonaId;
+  /** Stored risk profile of the user */
+  riskProfile?: RiskProfile;
+  /** Answer language (defaults to the current UI language) */
+  language?: Language;
+}
+
+export interface AdviceResult {
+  text: string;
+  sources: GroundingSource[];
+  /** Summary after this turn; store it on the ChatSession when it changed */
+  summary?: ConversationSummary;
+  /** Structured analysis; undefined when not requested or the output did not parse */
+  analysis?: StockAnalysis;
+  /** Suggested follow-up questions (empty when generation failed) */
+  followUps: string[];
+  /** Tools called while answering, in call order */
+  toolCalls: ToolCallTrace[];
+  /** Route chosen for this turn */
+  route: QueryRoute;
+  /** Tokens and estimated cost of every model call made for this turn */
+  usage: TokenUsage;
+  /** Numbers in the answer checked against tool data; undefined when disabled or no data was fetched */
+  factCheck?: FactCheckResult;
+}
+
+export interface StreamOptions extends AdviceOptions {
+  /** Called with the full text accumulated so far each time new text arrives */
+  onChunk?: (text: string) => void;
+  /** Abort the request; the partial text is kept */
+  signal?: AbortSignal;
+}
+
+export interface StreamResult extends AdviceResult {
+  aborted: boolean;
+}
+
+/**
+ * Everything needed to run one turn against the model
+ */
+interface PreparedTurn {
+  contents: ChatHistoryItem[];
+  systemInstruction: string;
+  summary?: ConversationSummary;
+  /** Numbered sources collected from tool results during this turn */
+  citations: CitationCollector;
+  /** Tools called during this turn, in call order */
+  toolCalls: ToolCallTrace[];
+  route: QueryRoute;
+  /** Token usage of this turn so far (updated by every model call) */
+  usage: TokenUsage;
+  /** Numbers returned by tools during this turn, for the fact check */
+  facts: VerifiedFact[];
+}
+
+// Rolling summary of older turns (see conversationContext.ts), in the answer language
+const SUMMARY_INSTRUCTIONS: Record<Language, string> = {
+  id: `
+Anda merangkum percakapan antara pengguna dan asisten penasihat keuangan.
+Tulis ringkasan padat (maksimal 200 kata) dalam bahasa Indonesia yang mempertahankan:
+- Saham/ticker, angka, dan data penting yang sudah dibahas
+- Pertanyaan, tujuan, dan preferensi pengguna
+- Kesimpulan atau rekomendasi yang sudah diberikan
+Jangan menambahkan informasi baru.
+`,
+  en: `
+You summarize a conversation between a user and a financial advisor assistant.
+Write a concise summary (at most 200 words) in English that keeps:
+- Stocks/tickers, figures and key data already discussed
+- The user's questions, goals and preferences
+- Conclusions or recommendations already given
+Do not add new information.
+`,
 };
 
-const getMacroNewsTool: FunctionDeclaration = {
-  name: "get_macro_news",
-  description: "Mengambil berita makro ekonomi atau keuangan umum dari NewsAPI. Gunakan ini ketika user bertanya tentang ekonomi, inflasi, suku bunga, atau pasar secara umum.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      query: {
-        type: Type.STRING,
-        description: "Kata kunci pencarian berita, contoh: 'inflasi indonesia', 'the fed', 'ihsg', 'suku bunga BI'.",
-      },
-    },
-    required: ["query"],
+const SUMMARY_LABELS: Record<Language, { previous: string; continued: string; request: string; soFar: string }> = {
+  id: {
+    previous: 'Ringkasan sebelumnya',
+    continued: 'Percakapan lanjutan',
+    request: 'Tulis ringkasan terbaru yang menggabungkan semuanya.',
+    soFar: 'Ringkasan percakapan sejauh ini',
+  },
+  en: {
+    previous: 'Previous summary',
+    continued: 'Conversation since then',
+    request: 'Write an updated summary that combines everything.',
+    soFar: 'Conversation summary so far',
   },
 };
 
-// Tools configuration - function declarations only
-// Note: Google Search grounding cannot be combined with function calling in gemini-2.5-flash
-const tools: Tool[] = [
-  {
-    functionDeclarations: [getStockNewsTool, getMacroNewsTool],
-  },
-];
+export interface GeminiServiceOptions {
+  /** LLM backend; defaults to the one configured in AppConfig.API (created on first use) */
+  provider?: LlmProvider;
+  /** Tools offered to the model; defaults to the shared registry with the financial tools */
+  tools?: ToolRegistry;
+}
 
-// ============================================
-// MAIN SERVICE CLASS
-// ============================================
+export class GeminiService {
+  private provider: LlmProvider | null;
+  private readonly tools: ToolRegistry;
 
-interface ChatHistoryItem {
-  role: 'user' | 'model';
-  parts: Part[];
-}
+  constructor(options: GeminiServiceOptions = {}) {
+    this.provider = options.provider || null;
+    this.tools = options.tools || toolRegistry;
+  }
 
-class GeminiService {
-  private conversationHistory: ChatHistoryItem[] = [];
+  /**
+   * Active LLM provider, created from AppConfig.API on first use
+   */
+  private getProvider(): LlmProvider {
+    if (!this.provider) {
+      this.provider = createLlmProvider();
+      console.log(`🤖 LLM provider: ${this.provider.name} (${this.provider.model})`);
+    }
+    return this.provider;
+  }
 
   /**
-   * Initialize/reset conversation
+   * Throw when the active provider is missing credentials
    */
-  async initializeConversation(): Promise<void> {
-    this.conversationHistory = [];
+  private assertConfigured(): void {
+    if (!this.getProvider().isConfigured()) {
+      throw new AiError('auth', {
+        message: this.getProvider().name === 'gemini'
+          ? translate('error.notConfigured.gemini')
+          : translate('error.notConfigured.openai'),
+      });
+    }
   }
 
   /**
    * Generate Financial Advice - Main method
-   * Follows finAdvisor pattern with function calling loop
+   * Follows finAdvisor pattern with a multi-round function calling loop.
+   * Failures are thrown as AiError (after retries for transient errors).
    */
   async generateFinancialAdvice(
     history: Message[],
     currentMessage: string,
-    attachments: Attachment[] = []
-  ): Promise<{ text: string; sources: GroundingSource[] }> {
-    
+    attachments: Attachment[] = [],
+    options: AdviceOptions = {}
+  ): Promise<AdviceResult> {
+    const usage = emptyUsage();
+
     try {
-      if (!API_KEY) {
-        throw new Error('API Key Gemini tidak dikonfigurasi. Silakan set EXPO_PUBLIC_GEMINI_API_KEY di .env');
-      }
+      this.assertConfigured();
 
-      // 1. Construct past conversation history
-      const pastContent: ChatHistoryItem[] = history
-        .filter(msg => !msg.isPlaceholder)
-        .map((msg) => ({
-          role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
-          parts: [{ text: msg.content }],
-        }));
-
-      // 2. Prepare current message parts
-      const currentParts: Part[] = [{ text: currentMessage }];
-
-      // 3. Add attachments as inline data (PDF/Excel/CSV)
-      if (attachments.length > 0) {
-        attachments.forEach((att) => {
-          currentParts.push({
-            inlineData: {
-              mimeType: att.mimeType,
-              data: att.data,
-            },
-          });
-          console.log(`📎 Attached file: ${att.name} (${att.mimeType})`);
-        });
-      }
+      // 1-3. Build budgeted history + current message (with attachments)
+      const turn = await this.prepareTurn(history, currentMessage, attachments, options, usage);
+      const { contents } = turn;
 
-      // 4. Initial call to Gemini (may trigger function calls)
-      let response: GenerateContentResponse = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: [
-          ...pastContent,
-          {
-            role: 'user',
-            parts: currentParts,
-          },
-        ],
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          temperature: 0.7,
-          tools: tools,
-        },
-      });
+      // 4. Agent loop: keep executing function calls until Gemini answers with text
+      const deadline = Date.now() + AppConfig.API.TOOL_LOOP_TIMEOUT;
+      // Hard end of the model calls, retries included
+      const turnDeadline = deadline + AppConfig.API.FINAL_ANSWER_TIMEOUT;
+      let response: LlmResponse = await this.generateWithTools(turn, turnDeadline);
 
-      // 5. Handle Function Calls (Tool Loop)
-      const candidates = response.candidates;
-      
-      if (candidates && candidates[0]?.content?.parts) {
-        const parts = candidates[0].content.parts;
-        
-        // Check for function calls
-        const functionCalls = parts.filter(part => part.functionCall);
-
-        if (functionCalls.length > 0) {
-          const functionResponses: any[] = [];
-
-          // Execute each function requested by Gemini
-          for (const callPart of functionCalls) {
-            const call = callPart.functionCall;
-            if (!call) continue;
-
-            let apiResult;
-            console.log(`🔧 Executing Tool: ${call.name}`);
-
-            if (call.name === 'get_stock_news') {
-              const args = call.args as { ticker: string };
-              apiResult = await fetchStockNews(args.ticker);
-              console.log(`📊 Stock news result for ${args.ticker}:`, apiResult.length, 'articles');
-            } else if (call.name === 'get_macro_news') {
-              const args = call.args as { query: string };
-              apiResult = await fetchMacroNews(args.query);
-              console.log(`🌍 Macro news result for "${args.query}":`, apiResult.length, 'articles');
-            } else {
-              apiResult = { error: "Unknown function" };
-            }
+      for (let iteration = 0; ; iteration++) {
+        const functionCalls = response.toolCalls;
 
-            functionResponses.push({
-              functionResponse: {
-                name: call.name,
-                response: { result: apiResult },
-                id: call.id
-              }
-            });
-          }
+        if (functionCalls.length === 0) break;
 
-          // 6. Send function results back to Gemini for final response
-          response = await ai.models.generateContent({
-            model: MODEL_NAME,
-            contents: [
-              ...pastContent,
-              { role: 'user', parts: currentParts },
-              { role: 'model', parts: parts }, // Model's request to call tools
-              { role: 'user', parts: functionResponses } // Tool results
-            ],
-            config: {
-              systemInstruction: SYSTEM_INSTRUCTION,
-              tools: tools,
-            }
-          });
+        // 5. Stop looping when the iteration cap or time budget is exhausted
+        if (iteration >= AppConfig.API.MAX_TOOL_ITERATIONS || Date.now() >= deadline) {
+          console.warn(`⏱️ Tool loop stopped after ${iteration} round(s), asking for final answer`);
+          response = await this.generateWithTools(turn, turnDeadline, false);
+          break;
         }
+
+        // 6. Execute independent calls of this turn in parallel
+        console.log(`🔁 Tool round ${iteration + 1}: ${functionCalls.map(c => c.name).join(', ')}`);
+        const functionResponses = await Promise.all(
+          functionCalls.map(call => this.executeToolCall(call, deadline, turn))
+        );
+
+        contents.push(
+          { role: 'model', parts: response.parts }, // Model's request to call tools
+          { role: 'user', parts: functionResponses } // Tool results
+        );
+
+        response = await this.generateWithTools(turn, turnDeadline);
       }
 
       // 7. Extract final text response
-      const text = response.text || "Maaf, saya tidak dapat menghasilkan respon saat ini.";
-
-      // 8. Extract sources from grounding metadata (Google Search)
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
-      const sources: GroundingSource[] = [];
-
-      if (chunks) {
-        chunks.forEach((chunk) => {
-          if (chunk.web) {
-            sources.push({
-              uri: chunk.web.uri,
-              title: chunk.web.title || new URL(chunk.web.uri).hostname,
-            });
+      const language = options.language || getLanguage();
+      const text = response.text || translate('chat.noResponse', {}, language);
+
+      // 8. Sources: cited tool articles, then grounding metadata (Google Search, Gemini only)
+      turn.citations.add(response.sources);
+      const sources = turn.citations.getSources();
+
+      // 9. Structured mode: convert the answer into a StockAnalysis; suggest follow-ups
+      const [analysis, followUps] = await Promise.all([
+        options.structured ? this.structureAnalysis(currentMessage, text, language, usage) : Promise.resolve(undefined),
+        this.suggestFollowUps(currentMessage, text, language, usage),
+      ]);
+
+      usageService.record(usage);
+
+      return {
+        text,
+        sources,
+        summary: turn.summary,
+        analysis,
+        followUps,
+        toolCalls: turn.toolCalls,
+        route: turn.route,
+        usage,
+        factCheck: this.factCheck(text, turn),
+      };
+
+    } catch (error) {
+      // Tokens spent before the failure still count
+      usageService.record(usage);
+      const aiError = toAiError(error);
+      console.error(`Gemini API Error [${aiError.kind}]:`, error);
+      throw aiError;
+    }
+  }
+
+  /**
+   * Stream Financial Advice - streaming variant of generateFinancialAdvice
+   * Text is delivered through onChunk as it arrives; tool rounds run in between.
+   * Aborting via signal stops the request and resolves with the partial text.
+   * A round is only retried while it has not emitted text yet; other failures
+   * are thrown as AiError.
+   */
+  async streamFinancialAdvice(
+    history: Message[],
+    currentMessage: string,
+    attachments: Attachment[] = [],
+    options: StreamOptions = {}
+  ): Promise<StreamResult> {
+    const { onChunk, signal } = options;
+    const language = options.language || getLanguage();
+    let text = '';
+    let summary = options.summary;
+    let turn: PreparedTurn | undefined;
+    const usage = emptyUsage();
+
+    try {
+      this.assertConfigured();
+
+      const prepared = await this.prepareTurn(history, currentMessage, attachments, options, usage);
+      turn = prepared;
+      const { contents } = prepared;
+      summary = prepared.summary;
+      const deadline = Date.now() + AppConfig.API.TOOL_LOOP_TIMEOUT;
+      // Hard end of the model calls, retries included
+      const turnDeadline = deadline + AppConfig.API.FINAL_ANSWER_TIMEOUT;
+      let groundingSources: GroundingSource[] = [];
+
+      for (let iteration = 0; ; iteration++) {
+        // Final round without tools once the iteration cap or time budget is exhausted
+        const allowTools = iteration < AppConfig.API.MAX_TOOL_ITERATIONS && Date.now() < deadline;
+        let emitted = false;
+
+        const { modelParts, functionCalls, roundUsage } = await withRetry(async ({ signal: attemptSignal, heartbeat }) => {
+          const modelParts: LlmPart[] = [];
+          const functionCalls: LlmToolCall[] = [];
+          let roundUsage: LlmUsage | undefined;
+          const stream = this.getProvider().stream({
+            ...this.baseRequest(prepared, allowTools),
+            signal: attemptSignal,
+          });
+
+          for await (const chunk of stream) {
+            heartbeat();
+            modelParts.push(...chunk.parts);
+            functionCalls.push(...chunk.toolCalls);
+            if (chunk.text) {
+              emitted = true;
+              text += chunk.text;
+              onChunk?.(text);
+            }
+            if (chunk.sources.length > 0) groundingSources = chunk.sources;
+            if (chunk.usage) roundUsage = chunk.usage; // Cumulative for the response
           }
+          return { modelParts, functionCalls, roundUsage };
+        }, {
+          signal,
+          deadline: turnDeadline,
+          // Retrying after text was shown would duplicate it
+          shouldRetry: () => !emitted,
         });
+        this.meterUsage(usage, roundUsage);
+
+        if (functionCalls.length === 0 || signal?.aborted) break;
+
+        console.log(`🔁 Tool round ${iteration + 1}: ${functionCalls.map(c => c.name).join(', ')}`);
+        const functionResponses = await Promise.all(
+          functionCalls.map(call => this.executeToolCall(call, deadline, prepared))
+        );
+
+        contents.push(
+          { role: 'model', parts: modelParts },
+          { role: 'user', parts: functionResponses }
+        );
       }
 
-      // 9. Update internal history
-      this.conversationHistory.push(
-        { role: 'user', parts: currentParts },
-        { role: 'model', parts: [{ text }] }
-      );
-
-      return { text, sources };
-
-    } catch (error: any) {
-      console.error("Gemini API Error:", error);
-      
-      // Provide helpful error messages
-      let errorMessage = "Maaf, terjadi kesalahan saat menghubungkan ke layanan AI.";
-      
-      if (error.message?.includes('API Key')) {
-        errorMessage = "API Key tidak valid atau belum dikonfigurasi. Silakan cek EXPO_PUBLIC_GEMINI_API_KEY di file .env";
-      } else if (error.message?.includes('network') || error.message?.includes('fetch')) {
-        errorMessage = "Gagal terhubung ke server. Periksa koneksi internet Anda.";
-      } else if (error.message?.includes('quota')) {
-        errorMessage = "Kuota API habis. Silakan coba lagi nanti atau upgrade plan API Anda.";
+      if (!text && !signal?.aborted) {
+        text = translate('chat.noResponse', {}, language);
+        onChunk?.(text);
       }
-      
+
+      const aborted = !!signal?.aborted;
+      const [analysis, followUps] = await Promise.all([
+        options.structured && !aborted
+          ? this.structureAnalysis(currentMessage, text, language, usage, signal)
+          : Promise.resolve(undefined),
+        aborted ? Promise.resolve([]) : this.suggestFollowUps(currentMessage, text, language, usage, signal),
+      ]);
+
+      usageService.record(usage);
+
+      prepared.citations.add(groundingSources);
       return {
-        text: errorMessage,
-        sources: []
+        text,
+        sources: prepared.citations.getSources(),
+        summary,
+        analysis,
+        followUps,
+        toolCalls: prepared.toolCalls,
+        route: prepared.route,
+        usage,
+        factCheck: aborted ? undefined : this.factCheck(text, prepared),
+        aborted,
       };
+
+    } catch (error) {
+      // Tokens spent before the failure/abort still count
+      usageService.record(usage);
+
+      if (signal?.aborted) {
+        console.log('⏹️ Gemini stream aborted by user');
+        return {
+          text,
+          sources: turn?.citations.getSources() || [],
+          summary,
+          followUps: [],
+          toolCalls: turn?.toolCalls || [],
+          route: turn?.route || 'tools',
+          usage,
+          aborted: true,
+        };
+      }
+
+      const aiError = toAiError(error);
+      console.error(`Gemini Stream Error [${aiError.kind}]:`, error);
+      throw aiError;
     }
   }
 
   /**
-   * Simple send message (wrapper for backward compatibility)
+   * Prepare a turn: fit history into the token budget (summarizing older
+   * turns when needed), then add the current message and attachments
    */
-  async sendMessage(userMessage: string, attachments: Attachment[] = []): Promise<string> {
-    const result = await this.generateFinancialAdvice([], userMessage, attachments);
-    return result.text;
+  private async prepareTurn(
+    history: Message[],
+    currentMessage: string,
+    attachments: Attachment[],
+    options: AdviceOptions,
+    usage: TokenUsage = emptyUsage()
+  ): Promise<PreparedTurn> {
+    const language = options.language || getLanguage();
+
+    // 1. Fit past conversation into the context budget
+    const budgeted = budgetHistory(history, options.summary);
+    let summary = budgeted.summary;
+
+    if (budgeted.toSummarize.length > 0) {
+      summary = await this.summarizeHistory(budgeted.toSummarize, summary, language, usage);
+    }
+
+    const pastContent: ChatHistoryItem[] = budgeted.recent.map((msg) => ({
+      role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
+      parts: [{ text: msg.content }],
+    }));
+
+    // 2. Prepare current message parts
+    const currentParts: LlmPart[] = [{ text: currentMessage }];
+
+    // 3. Add attachments as untrusted data blocks (PDF/Excel/CSV)
+    for (const att of attachments) {
+      currentParts.push(...await this.attachmentParts(att));
+      console.log(`📎 Attached file: ${att.name} (${att.mimeType})`);
+    }
+
+    // 4. Route the turn: Google Search grounding or function calling
+    const route = routeQuery(currentMessage, {
+      hasAttachments: attachments.length > 0,
+      structured: options.structured,
+      groundingAvailable: this.getProvider().supportsGrounding,
+    });
+    console.log(`🧭 Route: ${route}`);
+
+    const baseInstruction = SYSTEM_INSTRUCTIONS[language]
+      + buildPersonaInstruction(options.persona, options.riskProfile, language)
+      + CITATION_INSTRUCTIONS[language]
+      + UNTRUSTED_CONTENT_INSTRUCTIONS[language];
+    const systemInstruction = summary
+      ? `${baseInstruction}\n${SUMMARY_LABELS[language].soFar}:\n${summary.text}\n`
+      : baseInstruction;
+
+    return {
+      contents: [...pastContent, { role: 'user', parts: currentParts }],
+      systemInstruction,
+      summary,
+      citations: new CitationCollector(),
+      toolCalls: [],
+      facts: [],
+      route,
+      usage,
+    };
+  }
+
+  /**
+   * Parts for one attachment, delimited as untrusted data. Text files are
+   * decoded, sanitized and inlined; binary files (PDF/Excel) stay inline data
+   * between markers, scanned through a best-effort text extraction.
+   */
+  private async attachmentParts(att: Attachment): Promise<LlmPart[]> {
+    const isText = att.mimeType.startsWith('text/') || att.mimeType.includes('csv');
+
+    if (isText) {
+      const text = sanitizeDocumentText(base64ToText(att.data));
+      const findings = scanForInjection(text);
+      if (findings.length > 0) {
+        console.warn(`🛡️ Instruction-like content in ${att.name}:`, findings.join(', '));
+      }
+      return [{ text: wrapUntrusted(att.name, text, findings) }];
+    }
+
+    const extracted = att.mimeType === 'application/pdf' ? await extractTextFromPDF(att.data, 50000) : '';
+    const findings = scanForInjection(extracted);
+    if (findings.length > 0) {
+      console.warn(`🛡️ Instruction-like content in ${att.name}:`, findings.join(', '));
+    }
+
+    const markers = untrustedMarkers(att.name, findings);
+    return [
+      { text: markers.start },
+      { inlineData: { mimeType: att.mimeType, data: att.data } },
+      { text: markers.end },
+    ];
+  }
+
+  /**
+   * Fold older messages into the rolling summary.
+   * On failure the previous summary is kept and the messages are simply dropped.
+   */
+  private async summarizeHistory(
+    messages: Message[],
+    previous: ConversationSummary | undefined,
+    language: Language,
+    usage: TokenUsage
+  ): Promise<ConversationSummary | undefined> {
+    console.log(`🧾 Summarizing ${messages.length} older message(s)`);
+
+    const labels = SUMMARY_LABELS[language];
+    const prompt = [
+      previous ? `${labels.previous}:\n${previous.text}` : '',
+      `${labels.continued}:\n${formatTranscript(messages, language)}`,
+      labels.request,
+    ].filter(Boolean).join('\n\n');
+
+    try {
+      const response = await withRetry(({ signal }) => this.getProvider().generate({
+        systemInstruction: SUMMARY_INSTRUCTIONS[language],
+        messages: [{ role: 'user', parts: [{ text: prompt }] }],
+        temperature: 0.2,
+        signal,
+      }));
+      this.meterUsage(usage, response.usage);
+
+      if (!response.text.trim()) return previous;
+
+      return {
+        text: response.text.trim(),
+        coveredUntilMessageId: messages[messages.length - 1].id,
+        coveredMessageCount: (previous?.coveredMessageCount || 0) + messages.length,
+        updatedAt: Date.now(),
+      };
+    } catch (error) {
+      console.warn('⚠️ Summarization failed, dropping older messages:', error);
+      return previous;
+    }
+  }
+
+  /**
+   * Convert a prose answer into a StockAnalysis using the JSON response schema.
+   * Runs without tools (JSON output cannot be combined with function calling).
+   * Returns undefined when the model output does not parse.
+   */
+  private async structureAnalysis(
+    question: string,
+    answer: string,
+    language: Language,
+    usage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<StockAnalysis | undefined> {
+    try {
+      const response = await withRetry(({ signal: attemptSignal }) => this.getProvider().generate({
+        systemInstruction: SYSTEM_INSTRUCTIONS[language],
+        messages: [
+          { role: 'user', parts: [{ text: question }] },
+          { role: 'model', parts: [{ text: answer }] },
+          { role: 'user', parts: [{ text: STRUCTURED_ANALYSIS_PROMPTS[language] }] },
+        ],
+        temperature: 0.2,
+        responseSchema: STOCK_ANALYSIS_SCHEMA,
+        signal: attemptSignal,
+      }), { signal });
+      this.meterUsage(usage, response.usage);
+
+      const analysis = parseStockAnalysis(response.text);
+      if (!analysis) {
+        console.warn('⚠️ Structured analysis did not parse, falling back to text');
+      }
+      return analysis || undefined;
+    } catch (error) {
+      console.warn('⚠️ Structured analysis failed, falling back to text:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check the numbers in an answer against the quote/metrics data fetched
+   * during the turn. Skipped when disabled or no such data was fetched.
+   */
+  private factCheck(text: string, turn: PreparedTurn): FactCheckResult | undefined {
+    if (!FeatureFlags.enableFactCheck || turn.facts.length === 0) return undefined;
+
+    const result = checkFacts(text, turn.facts);
+    if (result.mismatches.length > 0) {
+      console.warn(`🔎 Fact check: ${result.mismatches.length}/${result.checkedClaims} claim(s) differ from tool data`);
+    }
+    return result;
+  }
+
+  /**
+   * Suggest follow-up questions for an answer using a small JSON schema.
+   * Runs without tools; returns an empty list on any failure.
+   */
+  private async suggestFollowUps(
+    question: string,
+    answer: string,
+    language: Language,
+    usage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    try {
+      const response = await withRetry(({ signal: attemptSignal }) => this.getProvider().generate({
+        systemInstruction: SYSTEM_INSTRUCTIONS[language],
+        messages: [
+          { role: 'user', parts: [{ text: question }] },
+          { role: 'model', parts: [{ text: answer }] },
+          { role: 'user', parts: [{ text: FOLLOW_UP_PROMPTS[language] }] },
+        ],
+        temperature: 0.5,
+        responseSchema: FOLLOW_UP_SCHEMA,
+        signal: attemptSignal,
+      }), { signal, maxRetries: 1 });
+      this.meterUsage(usage, response.usage);
+
+      return parseFollowUps(response.text);
+    } catch (error) {
+      console.warn('⚠️ Follow-up suggestions failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Generate a title, short summary and tickers for a conversation (History list).
+   * Written in the given language (default: the current UI language).
+   * Long chats are cut to their most recent part. Returns null on any failure.
+   */
+  async generateSessionOverview(
+    messages: Message[],
+    language: Language = getLanguage()
+  ): Promise<ParsedSessionOverview | null> {
+    const maxChars = AppConfig.CHAT.CONTEXT_TOKEN_BUDGET * 4;
+    const transcript = formatTranscript(messages.filter(m => !m.isStreaming && !m.error && m.content), language);
+    const prompt = SESSION_OVERVIEW_PROMPTS[language];
+    if (!transcript) return null;
+
+    try {
+      this.assertConfigured();
+      const response = await withRetry(({ signal }) => this.getProvider().generate({
+        systemInstruction: SESSION_OVERVIEW_INSTRUCTIONS[language],
+        messages: [{
+          role: 'user',
+          parts: [{ text: `${prompt.transcript}:\n${transcript.slice(-maxChars)}` }, { text: prompt.request }],
+        }],
+        temperature: 0.2,
+        responseSchema: SESSION_OVERVIEW_SCHEMA,
+        signal,
+      }), { maxRetries: 1 });
+
+      // Counted for the user, not for a message
+      const usage = emptyUsage();
+      this.meterUsage(usage, response.usage);
+      usageService.record(usage);
+
+      const overview = parseSessionOverview(response.text);
+      if (!overview) {
+        console.warn('⚠️ Session overview did not parse');
+      }
+      return overview;
+    } catch (error) {
+      console.warn('⚠️ Session overview failed:', error);
+      return null;
+    }
   }
 
   /**
-   * Clear conversation history
+   * Common request fields: system instruction, temperature and either the
+   * registered tools or Google Search grounding, depending on the route.
+   * Pass allowTools = false to force a plain-text answer.
    */
-  clearHistory(): void {
-    this.conversationHistory = [];
+  private baseRequest(turn: PreparedTurn, allowTools: boolean = true): LlmRequest {
+    const request: LlmRequest = {
+      systemInstruction: turn.systemInstruction,
+      messages: turn.contents,
+      temperature: 0.7,
+    };
+
+    if (turn.route === 'search') {
+      return { ...request, grounding: true };
+    }
+    return {
+      ...request,
+      tools: this.tools.getDeclarations(),
+      toolMode: allowTools ? 'auto' : 'none',
+    };
+  }
+
+  /**
+   * Single model call with the tool declarations attached, retried on
+   * transient failures while the turn's time budget lasts
+   */
+  private async generateWithTools(
+    turn: PreparedTurn,
+    deadline: number,
+    allowTools: boolean = true
+  ): Promise<LlmResponse> {
+    const response = await withRetry(({ signal }) => this.getProvider().generate({
+      ...this.baseRequest(turn, allowTools),
+      signal,
+    }), { deadline });
+    this.meterUsage(turn.usage, response.usage);
+    return response;
+  }
+
+  /**
+   * Add the token counts reported for one model call (with estimated cost) to a usage total
+   */
+  private meterUsage(usage: TokenUsage, reported?: LlmUsage): void {
+    if (!reported) return;
+    Object.assign(usage, addUsage(usage, toTokenUsage(this.getProvider().model, reported)));
+  }
+
+  /**
+   * Execute one function call requested by the model through the tool registry
+   * and wrap it as a functionResponse part. Failures, timeouts, unknown
+   * tools and results that cannot be serialized come back as typed error
+   * payloads for that call instead of aborting the loop.
+   * The call is traced on the turn, and articles in the result are numbered
+   * as citations and listed next to the result for the model to cite.
+   */
+  private async executeToolCall(
+    call: LlmToolCall,
+    deadline: number,
+    turn: PreparedTurn
+  ): Promise<LlmPart> {
+    console.log(`🔧 Executing Tool: ${call.name}`);
+    const outcome = await this.tools.execute(call, deadline);
+
+    if (outcome.error) {
+      console.warn(`⚠️ Tool ${outcome.name} failed [${outcome.error.code}]:`, outcome.error.message);
+    } else {
+      console.log(`✅ Tool ${outcome.name} done in ${outcome.durationMs}ms`);
+    }
+
+    turn.toolCalls.push({
+      name: outcome.name,
+      args: outcome.args,
+      status: outcome.status,
+      durationMs: outcome.durationMs,
+      summary: outcome.summary,
+      // Firestore rejects undefined fields
+      ...(outcome.freshness && { freshness: outcome.freshness }),
+    });
+
+    turn.facts.push(...outcome.facts);
+
+    const citations = turn.citations.add(outcome.sources);
+    const raw = citations.length > 0
+      ? { ...outcome.response, citations }
+      : outcome.response;
+
+    // Tool results (news text in particular) are untrusted: strip HTML, cap length, flag injections
+    const { value, findings } = sanitizeToolResult(raw);
+    if (findings.length > 0) {
+      console.warn(`🛡️ Instruction-like content in ${outcome.name} result:`, findings.join(', '));
+    }
+    const response = {
+      ...(value as Record<string, unknown>),
+      content_type: 'untrusted_external_data',
+      ...(findings.length > 0 ? { injection_warning: findings } : {}),
+    };
+    turn.usage.toolTokens += estimateTokens(JSON.stringify(response));
+
+    return {
+      functionResponse: {
+        name: outcome.name,
+        response,
+        id: outcome.id,
+      },
+    };
+  }
+
+  /**
+   * Simple send message (wrapper for backward compatibility)
+   */
+  async sendMessage(userMessage: string, attachments: Attachment[] = []): Promise<string> {
+    const result = await this.generateFinancialAdvice([], userMessage, attachments);
+    return result.text;
   }
 }
 
@@ -331,6 +933,12 @@ export const convertToGeminiAttachment = (file: {
   };
 };
 
+/**
+ * Create a service with its own provider/tools (e.g. a fake client in tests)
+ */
+export const createGeminiService = (options: GeminiServiceOptions = {}): GeminiService =>
+  new GeminiService(options);
+
 // Export singleton instance
 export const geminiService = new GeminiService();
 export default geminiService;
\ No newline at end of file
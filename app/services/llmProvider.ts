@@ -0,0 +1,146 @@
+/**
+ * LLM Provider abstraction
+ *
+ * Provider-neutral request/response types used by geminiService, plus the
+ * factory that picks a backend from AppConfig.API:
+ * - 'gemini' → Google Gemini via @google/genai
+ * - 'openai' → any OpenAI-compatible /chat/completions server (self-hosted, local)
+ */
+
+import { FunctionDeclaration, Schema } from "@google/genai";
+import { AppConfig } from "../constants/config";
+import { GroundingSource } from "../types";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiProvider";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LlmProviderName = 'gemini' | 'openai';
+
+export interface LlmToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * One piece of a message. Exactly one of the content fields is set.
+ */
+export interface LlmPart {
+  text?: string;
+  /** True for model "thinking" text that must not be shown to the user */
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: LlmToolCall;
+  functionResponse?: LlmToolResult;
+  /** Provider-native part, kept so it can be sent back unchanged (e.g. Gemini thought signatures) */
+  raw?: unknown;
+}
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+/**
+ * Tool declarations use the OpenAPI-style schema from @google/genai;
+ * other providers convert it to their own format.
+ */
+export type LlmToolDeclaration = FunctionDeclaration;
+
+export interface LlmRequest {
+  systemInstruction: string;
+  messages: LlmMessage[];
+  tools?: LlmToolDeclaration[];
+  /** 'none' forces a plain-text answer even when tools are declared */
+  toolMode?: 'auto' | 'none';
+  temperature?: number;
+  /** Ground the answer with Google Search (tools must not be set) */
+  grounding?: boolean;
+  /** Request JSON output matching this schema (tools must not be set) */
+  responseSchema?: Schema;
+  signal?: AbortSignal;
+}
+
+/**
+ * Token counts reported by the backend
+ */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * A full response (generate) or a streamed chunk (stream).
+ * For chunks, `text` is only the newly received text, while `usage`
+ * (when present) covers the whole response so far.
+ */
+export interface LlmResponse {
+  text: string;
+  parts: LlmPart[];
+  toolCalls: LlmToolCall[];
+  sources: GroundingSource[];
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  /** True when LlmRequest.grounding is supported */
+  readonly supportsGrounding: boolean;
+  /** False when required credentials/endpoints are missing */
+  isConfigured(): boolean;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest): AsyncGenerator<LlmResponse>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Parse a JSON reply (responseSchema calls); null when it is not valid JSON.
+ * Some backends wrap JSON in ```json fences, which are stripped first.
+ */
+export const parseJsonResponse = (text: string): any | null => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return null;
+  }
+};
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create the provider selected in AppConfig.API
+ */
+export const createLlmProvider = (config = AppConfig.API): LlmProvider => {
+  switch (config.PROVIDER) {
+    case 'openai':
+      return new OpenAiCompatibleProvider({
+        baseUrl: config.OPENAI_BASE_URL,
+        apiKey: config.OPENAI_API_KEY,
+        model: config.OPENAI_MODEL,
+      });
+    case 'gemini':
+    default:
+      return new GeminiProvider({
+        apiKey: config.GEMINI_API_KEY,
+        model: config.GEMINI_MODEL,
+      });
+  }
+};
+
+export default createLlmProvider;
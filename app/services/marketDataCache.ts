@@ -0,0 +1,173 @@
+/**
+ * Market Data Cache
+ *
+ * Caching layer under marketDataService:
+ * - TTL per data type (AppConfig.MARKET_DATA.CACHE_TTL); statements live
+ *   until their next expected filing
+ * - Identical in-flight requests are merged into one provider call
+ * - Entries persist to AsyncStorage, so cold starts reuse recent data; when
+ *   a refresh fails (offline, quota, API error) the expired entry is served
+ *   as stale with the time it was fetched
+ *
+ * Empty results (null / []) are never cached: providers also return them on
+ * failure.
+ */
+
+import { AppConfig } from "../constants/config";
+import { CachedData, FinancialStatement, StatementPeriod } from "../types";
+import { storageService } from "./storageService";
+
+export type CacheKind = keyof typeof AppConfig.MARKET_DATA.CACHE_TTL | 'statements';
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+export interface MarketDataCacheOptions {
+  /** Persist entries to AsyncStorage (default: true) */
+  persist?: boolean;
+  maxEntries?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Time from the end of a reporting period until its statement is usually published
+const FILING_LAG_DAYS: Record<StatementPeriod, number> = { annual: 90, quarter: 45 };
+const PERIOD_MONTHS: Record<StatementPeriod, number> = { annual: 12, quarter: 3 };
+
+/**
+ * Expiry of cached statements: when the statement after the latest one is
+ * expected (period end + filing lag). Once overdue, recheck daily.
+ */
+export const statementsExpiry = (period: StatementPeriod) =>
+  (statements: FinancialStatement[], fetchedAt: number): number => {
+    const latest = statements
+      .map(statement => new Date(statement.date).getTime())
+      .filter(time => !isNaN(time))
+      .sort((a, b) => b - a)[0];
+    if (!latest) return fetchedAt + DAY;
+
+    const nextPeriodEnd = new Date(latest);
+    nextPeriodEnd.setMonth(nextPeriodEnd.getMonth() + PERIOD_MONTHS[period]);
+    const expectedFiling = nextPeriodEnd.getTime() + FILING_LAG_DAYS[period] * DAY;
+    return Math.max(expectedFiling, fetchedAt + DAY);
+  };
+
+export const isEmptyData = (value: unknown): boolean =>
+  value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+
+export class MarketDataCache {
+  private memory = new Map<string, CacheEntry<unknown>>();
+  private inFlight = new Map<string, Promise<CachedData<unknown>>>();
+  private persist: boolean;
+  private maxEntries: number;
+  // Persisted keys, oldest write first (loaded on first write)
+  private index: Promise<string[]> | null = null;
+  // Serializes writes of the persisted index
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: MarketDataCacheOptions = {}) {
+    this.persist = options.persist ?? true;
+    this.maxEntries = options.maxEntries ?? AppConfig.MARKET_DATA.MAX_CACHE_ENTRIES;
+  }
+
+  /**
+   * Cached value for `key` if still fresh, else the result of `load`
+   * (shared with identical requests in flight). Falls back to the expired
+   * entry, marked stale, when `load` returns nothing or throws.
+   *
+   * @param expiresAt - Custom expiry for the loaded value (default: TTL of the kind)
+   */
+  fetch<T>(
+    kind: CacheKind,
+    key: string,
+    load: () => Promise<T>,
+    expiresAt?: (value: T, fetchedAt: number) => number
+  ): Promise<CachedData<T>> {
+    const cacheKey = `${kind}:${key}`;
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) return pending as Promise<CachedData<T>>;
+
+    const request = this.resolve(kind, cacheKey, load, expiresAt)
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  private async resolve<T>(
+    kind: CacheKind,
+    cacheKey: string,
+    load: () => Promise<T>,
+    expiresAt?: (value: T, fetchedAt: number) => number
+  ): Promise<CachedData<T>> {
+    const cached = await this.read<T>(cacheKey);
+    if (cached && Date.now() < cached.expiresAt) {
+      return { data: cached.value, fetchedAt: cached.fetchedAt, stale: false };
+    }
+
+    let value: T;
+    try {
+      value = await load();
+    } catch (error) {
+      if (!cached) throw error;
+      value = null as T;
+    }
+
+    const fetchedAt = Date.now();
+    if (!isEmptyData(value)) {
+      const ttl = kind === 'statements' ? DAY : AppConfig.MARKET_DATA.CACHE_TTL[kind];
+      this.write(cacheKey, {
+        value,
+        fetchedAt,
+        expiresAt: expiresAt ? expiresAt(value, fetchedAt) : fetchedAt + ttl,
+      });
+      return { data: value, fetchedAt, stale: false };
+    }
+
+    if (cached) {
+      console.log(`🗄️ Serving stale ${cacheKey} from ${new Date(cached.fetchedAt).toISOString()}`);
+      return { data: cached.value, fetchedAt: cached.fetchedAt, stale: true };
+    }
+    return { data: value, fetchedAt, stale: false };
+  }
+
+  // ============================================
+  // STORAGE
+  // ============================================
+
+  private async read<T>(cacheKey: string): Promise<CacheEntry<T> | null> {
+    const inMemory = this.memory.get(cacheKey) as CacheEntry<T> | undefined;
+    if (inMemory || !this.persist) return inMemory || null;
+
+    const persisted = await storageService.getMarketCacheEntry<CacheEntry<T>>(cacheKey);
+    if (persisted) this.memory.set(cacheKey, persisted);
+    return persisted;
+  }
+
+  private write<T>(cacheKey: string, entry: CacheEntry<T>): void {
+    this.memory.set(cacheKey, entry);
+    if (!this.persist) return;
+
+    this.writes = this.writes.then(async () => {
+      try {
+        if (!this.index) this.index = storageService.getMarketCacheIndex();
+        const keys = (await this.index).filter(key => key !== cacheKey);
+        keys.push(cacheKey);
+
+        const evicted = keys.splice(0, Math.max(0, keys.length - this.maxEntries));
+        evicted.forEach(key => this.memory.delete(key));
+        this.index = Promise.resolve(keys);
+
+        await storageService.saveMarketCacheEntry(cacheKey, entry);
+        if (evicted.length > 0) await storageService.removeMarketCacheEntries(evicted);
+        await storageService.saveMarketCacheIndex(keys);
+      } catch (error) {
+        console.warn('⚠️ Persisting market data cache failed:', error);
+      }
+    });
+  }
+}
+
+export default MarketDataCache;
@@ -0,0 +1,82 @@
+/**
+ * Market Data Provider abstraction
+ *
+ * Vendor-neutral interface used by marketDataService, plus the factory that
+ * picks a backend from AppConfig.MARKET_DATA:
+ * - 'fmp'     → Financial Modeling Prep stable API
+ * - 'fixture' → recorded FMP JSON loaded from disk (offline, deterministic)
+ *
+ * Providers return null / [] when data is unavailable and never throw.
+ */
+
+import { AppConfig } from "../constants/config";
+import {
+  CompanyProfile,
+  EconomicIndicatorPoint,
+  FinancialStatement,
+  KeyMetrics,
+  MarketMover,
+  MoverDirection,
+  PricePoint,
+  StatementPeriod,
+  QuotaProvider,
+  StockQuote,
+  SymbolSearchResult,
+} from "../types";
+import { FixtureMarketDataProvider } from "./fixtureMarketDataProvider";
+import type { CacheKind } from "./marketDataCache";
+import { FmpProvider } from "./fmpProvider";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MarketDataProviderName = 'fmp' | 'fixture';
+
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+  /** API whose daily quota the calls count against (see quotaTracker.ts) */
+  readonly quota?: QuotaProvider;
+  /**
+   * Endpoint a request for this data type is counted under by quotaTracker,
+   * so data from endpoints on paid plans only is reported as limited
+   */
+  quotaEndpoint?(kind: CacheKind, key: string): string | undefined;
+  /** False when required credentials are missing */
+  isConfigured(): boolean;
+  getQuote(symbol: string): Promise<StockQuote | null>;
+  getProfile(symbol: string): Promise<CompanyProfile | null>;
+  getIncomeStatement(symbol: string, period: StatementPeriod, limit: number): Promise<FinancialStatement[]>;
+  getKeyMetrics(symbol: string): Promise<KeyMetrics | null>;
+  /** Daily closing prices, newest first */
+  getHistoricalPrices(symbol: string, days: number): Promise<PricePoint[]>;
+  searchSymbols(query: string): Promise<SymbolSearchResult[]>;
+  getMarketMovers(direction: MoverDirection): Promise<MarketMover[]>;
+  getEconomicIndicator(name: string): Promise<EconomicIndicatorPoint[]>;
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Create the provider selected in AppConfig.MARKET_DATA
+ */
+export const createMarketDataProvider = (config = AppConfig.MARKET_DATA): MarketDataProvider => {
+  switch (config.PROVIDER) {
+    case 'fixture':
+      return new FixtureMarketDataProvider({
+        baseDir: config.FIXTURES_DIR || undefined,
+        maxListItems: config.MAX_LIST_ITEMS,
+      });
+    case 'fmp':
+    default:
+      return new FmpProvider({
+        apiKey: config.FMP_API_KEY,
+        baseUrl: config.FMP_BASE_URL,
+        maxListItems: config.MAX_LIST_ITEMS,
+      });
+  }
+};
+
+export default createMarketDataProvider;
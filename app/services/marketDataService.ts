@@ -0,0 +1,287 @@
+/**
+ * Market Data Service
+ *
+ * Single entry point for market data (quotes, profiles, statements, key
+ * metrics, price history, symbol search, movers, economic indicators, news).
+ * - Canonical types from types/index.ts
+ * - Pluggable backend (MarketDataProvider): FMP, or recorded fixtures for
+ *   offline runs (see marketDataProvider.ts); injectable for tests
+ * - Tickers are resolved first (symbolResolver.ts): "BBCA", "bca" or
+ *   "Bank Central Asia" become BBCA.JK; quotes and profiles always carry
+ *   exchange and currency
+ * - Responses are cached per data type and persisted (marketDataCache.ts);
+ *   every method returns the data with when it was fetched, and whether it
+ *   is a stale copy served because a refresh failed
+ * - Calls count against each API's daily quota (quotaTracker.ts); results
+ *   that could not be refreshed because a limit was reached are marked
+ * - API keys and URLs come only from AppConfig.MARKET_DATA
+ * - Failures are logged and return null / [] (callers decide whether that
+ *   is an error, see financialTools.ts)
+ */
+
+import { AppConfig, isRealKey } from "../constants/config";
+import { getLanguage } from "../i18n";
+import {
+  CachedData,
+  CompanyProfile,
+  EconomicIndicatorPoint,
+  FinancialStatement,
+  KeyMetrics,
+  MarketMover,
+  MoverDirection,
+  NewsArticle,
+  PricePoint,
+  QuotaProvider,
+  StatementPeriod,
+  StockQuote,
+  SymbolSearchResult,
+} from "../types";
+import { CacheKind, isEmptyData, MarketDataCache, statementsExpiry } from "./marketDataCache";
+import { createMarketDataProvider, MarketDataProvider } from "./marketDataProvider";
+import { quotaTracker } from "./quotaTracker";
+import { SymbolResolver } from "./symbolResolver";
+
+// NewsAPI endpoint for macro news (as counted by quotaTracker)
+const NEWS_ENDPOINT = 'everything';
+
+export interface MarketDataServiceOptions {
+  /** Data backend; defaults to the one configured in AppConfig.MARKET_DATA (created on first use) */
+  provider?: MarketDataProvider;
+  /** Response cache; defaults to a persisted MarketDataCache */
+  cache?: MarketDataCache;
+}
+
+export class MarketDataService {
+  private provider: MarketDataProvider | null;
+  private readonly cache: MarketDataCache;
+  private readonly resolver: SymbolResolver;
+
+  constructor(options: MarketDataServiceOptions = {}) {
+    this.provider = options.provider || null;
+    this.cache = options.cache || new MarketDataCache();
+    this.resolver = new SymbolResolver(async query => (await this.searchSymbols(query)).data);
+  }
+
+  /**
+   * Active data provider, created from AppConfig.MARKET_DATA on first use
+   */
+  private getProvider(): MarketDataProvider {
+    if (!this.provider) {
+      this.provider = createMarketDataProvider();
+      console.log(`📡 Market data provider: ${this.provider.name}`);
+    }
+    return this.provider;
+  }
+
+  /**
+   * Cached call to the provider; keys are scoped to the provider so fixture
+   * and live data never mix
+   */
+  private async cached<T>(
+    kind: CacheKind,
+    key: string,
+    load: (provider: MarketDataProvider) => Promise<T>,
+    expiresAt?: (value: T, fetchedAt: number) => number
+  ): Promise<CachedData<T>> {
+    const provider = this.getProvider();
+    const result = await this.cache.fetch(kind, `${provider.name}:${key}`, () => load(provider), expiresAt);
+    return this.withQuota(provider.quota, result, provider.quotaEndpoint?.(kind, key));
+  }
+
+  /**
+   * Mark stale or missing data when the API's limit is why it was not
+   * refreshed: the provider is limited, or the endpoint is on paid plans only
+   */
+  private async withQuota<T>(
+    quota: QuotaProvider | undefined,
+    result: CachedData<T>,
+    endpoint?: string
+  ): Promise<CachedData<T>> {
+    if (!quota || (!result.stale && !isEmptyData(result.data))) return result;
+    const status = await quotaTracker.getStatus(quota);
+    const limited = status.limited || (endpoint !== undefined && status.paidOnly.includes(endpoint));
+    return limited ? { ...result, quotaLimited: true } : result;
+  }
+
+  /**
+   * True when the data provider has what it needs (e.g. an FMP API key)
+   */
+  isConfigured(): boolean {
+    return this.getProvider().isConfigured();
+  }
+
+  /**
+   * Exchange-qualified symbol with exchange and currency for a ticker or
+   * company name, e.g. "bca" → BBCA.JK (IDX, IDR)
+   */
+  resolveSymbol(input: string): Promise<SymbolSearchResult> {
+    return this.resolver.resolve(input);
+  }
+
+  // ============================================
+  // QUOTES & COMPANY
+  // ============================================
+
+  async getQuote(ticker: string): Promise<CachedData<StockQuote | null>> {
+    const resolved = await this.resolveSymbol(ticker);
+    const result = await this.cached('quote', resolved.symbol, provider => {
+      console.log(`📊 Fetching stock quote for: ${resolved.symbol}`);
+      return provider.getQuote(resolved.symbol);
+    });
+    const quote = result.data;
+    return {
+      ...result,
+      data: quote && {
+        ...quote,
+        name: quote.name || resolved.name,
+        exchange: resolved.exchange || quote.exchange,
+        currency: quote.currency || resolved.currency,
+      },
+    };
+  }
+
+  async getProfile(ticker: string): Promise<CachedData<CompanyProfile | null>> {
+    const resolved = await this.resolveSymbol(ticker);
+    const result = await this.cached('profile', resolved.symbol, provider => {
+      console.log(`🏢 Fetching company profile for: ${resolved.symbol}`);
+      return provider.getProfile(resolved.symbol);
+    });
+    const profile = result.data;
+    return {
+      ...result,
+      data: profile && {
+        ...profile,
+        exchange: resolved.exchange || profile.exchange,
+        currency: profile.currency || resolved.currency,
+      },
+    };
+  }
+
+  // ============================================
+  // FUNDAMENTALS
+  // ============================================
+
+  /**
+   * Income statements, cached until the next one is expected to be filed
+   */
+  async getIncomeStatement(
+    ticker: string,
+    period: StatementPeriod = 'annual',
+    limit: number = 4
+  ): Promise<CachedData<FinancialStatement[]>> {
+    const { symbol } = await this.resolveSymbol(ticker);
+    return this.cached('statements', `${symbol}:${period}:${limit}`, provider => {
+      console.log(`📈 Fetching income statement for: ${symbol}`);
+      return provider.getIncomeStatement(symbol, period, limit);
+    }, statementsExpiry(period));
+  }
+
+  async getKeyMetrics(ticker: string): Promise<CachedData<KeyMetrics | null>> {
+    const { symbol } = await this.resolveSymbol(ticker);
+    return this.cached('keyMetrics', symbol, provider => {
+      console.log(`📊 Fetching key metrics for: ${symbol}`);
+      return provider.getKeyMetrics(symbol);
+    });
+  }
+
+  // ============================================
+  // PRICES, SEARCH & MARKET
+  // ============================================
+
+  /**
+   * Daily closing prices, newest first
+   */
+  async getHistoricalPrices(ticker: string, days: number = 30): Promise<CachedData<PricePoint[]>> {
+    const { symbol } = await this.resolveSymbol(ticker);
+    return this.cached('history', `${symbol}:${days}`, provider => {
+      console.log(`📉 Fetching historical prices for: ${symbol}`);
+      return provider.getHistoricalPrices(symbol, days);
+    });
+  }
+
+  searchSymbols(query: string): Promise<CachedData<SymbolSearchResult[]>> {
+    return this.cached('search', query.trim().toLowerCase(), provider => {
+      console.log(`🔍 Searching stocks for: ${query}`);
+      return provider.searchSymbols(query);
+    });
+  }
+
+  getMarketMovers(direction: MoverDirection): Promise<CachedData<MarketMover[]>> {
+    return this.cached('movers', direction, provider => {
+      console.log(`${direction === 'gainers' ? '📈' : '📉'} Fetching market ${direction}`);
+      return provider.getMarketMovers(direction);
+    });
+  }
+
+  getEconomicIndicator(name: string = 'GDP'): Promise<CachedData<EconomicIndicatorPoint[]>> {
+    return this.cached('indicator', name, provider => {
+      console.log(`🌍 Fetching economic indicator: ${name}`);
+      return provider.getEconomicIndicator(name);
+    });
+  }
+
+  // ============================================
+  // NEWS
+  // ============================================
+
+  /**
+   * Stock news - DISABLED (FMP News API requires paid subscription, returns 402)
+   */
+  async getStockNews(symbol: string): Promise<CachedData<NewsArticle[]>> {
+    console.log(`📰 Stock news disabled (paid feature): ${symbol}`);
+    return { data: [], fetchedAt: Date.now(), stale: false };
+  }
+
+  /**
+   * Macro/economy news from NewsAPI in the active UI language
+   */
+  async getMacroNews(query: string = 'economy'): Promise<CachedData<NewsArticle[]>> {
+    const language = getLanguage();
+    const result = await this.cache.fetch('news', `newsapi:${language}:${query.trim().toLowerCase()}`, () =>
+      this.fetchMacroNews(query, language)
+    );
+    return this.withQuota('newsapi', result, NEWS_ENDPOINT);
+  }
+
+  private async fetchMacroNews(query: string, language: string): Promise<NewsArticle[]> {
+    const { NEWS_API_KEY, NEWS_BASE_URL } = AppConfig.MARKET_DATA;
+    if (!isRealKey(NEWS_API_KEY)) return [];
+    if (!(await quotaTracker.canCall('newsapi', NEWS_ENDPOINT))) {
+      console.warn('🚦 NewsAPI skipped: data limit reached');
+      return [];
+    }
+
+    try {
+      console.log(`🌍 Fetching macro news from NewsAPI: ${query}`);
+      const params = new URLSearchParams({
+        q: query,
+        language,
+        sortBy: 'publishedAt',
+        pageSize: '5',
+        apiKey: NEWS_API_KEY,
+      });
+      const response = await fetch(`${NEWS_BASE_URL}/everything?${params.toString()}`);
+      await quotaTracker.record('newsapi', NEWS_ENDPOINT, response);
+      const data = await response.json();
+      if (data.status !== 'ok' || !Array.isArray(data.articles)) return [];
+
+      return data.articles.map((item: any) => ({
+        title: item.title || '',
+        publishedDate: item.publishedAt || '',
+        source: item.source?.name || '',
+        summary: item.description || '',
+        url: item.url || '',
+      }));
+    } catch (error) {
+      console.warn('NewsAPI Error:', error);
+      return [];
+    }
+  }
+}
+
+export const createMarketDataService = (options: MarketDataServiceOptions = {}): MarketDataService =>
+  new MarketDataService(options);
+
+// Export singleton instance
+export const marketDataService = new MarketDataService();
+export default marketDataService;
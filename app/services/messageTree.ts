@@ -0,0 +1,117 @@
+/**
+ * Message Tree
+ *
+ * A chat session stores every message it ever had as a tree: each message
+ * points at the message it follows (parentId). Regenerating a reply or
+ * editing a question adds a sibling instead of overwriting, so alternative
+ * analyses are kept. The UI shows one branch (root → active leaf) and lets
+ * the user switch between siblings at each fork.
+ */
+
+import { Message } from "../types";
+
+export interface BranchInfo {
+  /** 1-based position of the message among its siblings */
+  index: number;
+  total: number;
+}
+
+const parentOf = (message: Message): string | null => message.parentId ?? null;
+
+/**
+ * Give every message a parentId. Sessions saved before branching existed
+ * are a flat list, so each message follows the one before it.
+ */
+export const normalizeTree = (messages: Message[]): Message[] => {
+  return messages.map((msg, index) =>
+    msg.parentId === undefined
+      ? { ...msg, parentId: index > 0 ? messages[index - 1].id : null }
+      : msg
+  );
+};
+
+/**
+ * Children of a message (null = root messages), oldest first
+ */
+export const getChildren = (messages: Message[], parentId: string | null): Message[] => {
+  return messages.filter(msg => parentOf(msg) === parentId);
+};
+
+/**
+ * Messages sharing the same parent (including the message itself)
+ */
+export const getSiblings = (messages: Message[], message: Message): Message[] => {
+  return getChildren(messages, parentOf(message));
+};
+
+/**
+ * Position of a message among its siblings
+ */
+export const getBranchInfo = (messages: Message[], message: Message): BranchInfo => {
+  const siblings = getSiblings(messages, message);
+  return {
+    index: siblings.findIndex(msg => msg.id === message.id) + 1,
+    total: siblings.length,
+  };
+};
+
+/**
+ * Follow the newest child from a message down to a leaf
+ */
+export const getLatestLeaf = (messages: Message[], messageId: string): string => {
+  let leafId = messageId;
+  let children = getChildren(messages, leafId);
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+  return leafId;
+};
+
+/**
+ * Messages from the root to the given leaf. Falls back to the newest
+ * message when the leaf is unknown (e.g. it was removed).
+ */
+export const getActivePath = (messages: Message[], leafId?: string): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  let current: Message | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    const parentId = parentOf(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Remove messages from the tree; their children are re-attached to the
+ * removed message's parent so the branches below stay reachable
+ */
+export const removeFromTree = (
+  messages: Message[],
+  shouldRemove: (message: Message) => boolean
+): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+
+  const keptAncestor = (parentId: string | null): string | null => {
+    let currentId = parentId;
+    while (currentId) {
+      const parent = byId.get(currentId);
+      if (!parent) return null;
+      if (!shouldRemove(parent)) return currentId;
+      currentId = parentOf(parent);
+    }
+    return null;
+  };
+
+  return messages
+    .filter(msg => !shouldRemove(msg))
+    .map(msg => {
+      const parentId = keptAncestor(parentOf(msg));
+      return parentId === parentOf(msg) ? msg : { ...msg, parentId };
+    });
+};
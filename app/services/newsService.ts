@@ -2,10 +2,17 @@
  * News API Service
  * Mengambil berita finansial dan ekonomi terkini
  * API: https://newsapi.org
+ * Bahasa berita dan kata kunci mengikuti bahasa aktif (lihat i18n)
+ * Setiap panggilan dihitung ke kuota harian NewsAPI (lihat quotaTracker.ts)
  */
 
-const API_KEY = process.env.EXPO_PUBLIC_NEWS_API_KEY || '';
-const API_ENDPOINT = 'https://newsapi.org/v2/everything';
+import { AppConfig } from '../constants/config';
+import { getLanguage, getLocale } from '../i18n';
+import { Language } from '../types';
+import { quotaTracker } from './quotaTracker';
+
+const API_KEY = AppConfig.MARKET_DATA.NEWS_API_KEY;
+const API_ENDPOINT = `${AppConfig.MARKET_DATA.NEWS_BASE_URL}/everything`;
 const IS_NEWS_ENABLED = API_KEY && API_KEY !== 'YOUR_NEWS_API_KEY_HERE';
 
 export interface NewsArticle {
@@ -28,6 +35,12 @@ export interface NewsResponse {
   articles: NewsArticle[];
 }
 
+// Kata kunci finansial yang ditambahkan ke setiap pencarian, per bahasa
+const FINANCE_KEYWORDS: Record<Language, string> = {
+  id: 'saham OR pasar OR investasi OR ekonomi',
+  en: 'stocks OR market OR investing OR economy',
+};
+
 class NewsService {
   /**
    * Search untuk berita finansial/saham
@@ -39,18 +52,25 @@ class NewsService {
         return [];
       }
 
-      // Build query untuk berita finansial Indonesia
-      const searchQuery = `${query} saham OR pasar OR investasi OR ekonomi`;
+      if (!(await quotaTracker.canCall('newsapi'))) {
+        console.warn('🚦 News API dilewati: batas data tercapai');
+        return [];
+      }
+
+      // Build query untuk berita finansial dalam bahasa aktif
+      const language = getLanguage();
+      const searchQuery = `${query} ${FINANCE_KEYWORDS[language]}`;
       
       const params = new URLSearchParams({
         q: searchQuery,
-        language: 'id', // Bahasa Indonesia
+        language,
         sortBy: 'publishedAt',
         pageSize: limit.toString(),
         apiKey: API_KEY,
       });
 
       const response = await fetch(`${API_ENDPOINT}?${params.toString()}`);
+      await quotaTracker.record('newsapi', 'everything', response);
 
       if (!response.ok) {
         const error = await response.json();
@@ -99,7 +119,7 @@ class NewsService {
             `${i + 1}. **${article.title}**\n` +
             `   Sumber: ${article.source.name}\n` +
             `   ${article.description || article.content || 'Tidak ada deskripsi'}\n` +
-            `   Waktu: ${new Date(article.publishedAt).toLocaleString('id-ID')}`
+            `   Waktu: ${new Date(article.publishedAt).toLocaleString(getLocale())}`
         )
         .join('\n\n');
 
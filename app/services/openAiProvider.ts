@@ -0,0 +1,284 @@
+/**
+ * OpenAI-Compatible Provider
+ * LlmProvider implementation for any server speaking the OpenAI
+ * /chat/completions protocol (Ollama, LM Studio, vLLM, llama.cpp, OpenAI).
+ * Intended for development and offline testing against self-hosted models.
+ */
+
+import { Schema } from "@google/genai";
+import { base64ToText } from "../utils/helpers";
+import { AiError, toAiError } from "./aiErrors";
+import {
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmToolCall,
+  LlmToolDeclaration,
+  LlmUsage,
+} from "./llmProvider";
+
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+// ============================================
+// CONVERSION HELPERS
+// ============================================
+
+/**
+ * Convert the Gemini/OpenAPI schema (Type.OBJECT, ...) to JSON Schema
+ */
+const toJsonSchema = (schema?: Schema): Record<string, unknown> => {
+  if (!schema) return { type: 'object', properties: {} };
+
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = String(schema.type).toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.required) json.required = schema.required;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return json;
+};
+
+const toOpenAiTools = (tools: LlmToolDeclaration[]) =>
+  tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description || '',
+      parameters: toJsonSchema(tool.parameters),
+    },
+  }));
+
+/**
+ * Convert provider-neutral messages to OpenAI chat messages.
+ * Text attachments are inlined; binary attachments are replaced by a note.
+ */
+const toOpenAiMessages = (systemInstruction: string, messages: LlmMessage[]): OpenAiMessage[] => {
+  const result: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+
+  messages.forEach((msg) => {
+    if (msg.role === 'model') {
+      const text = msg.parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+      const toolCalls = msg.parts
+        .filter(p => p.functionCall)
+        .map((p, index): OpenAiToolCall => ({
+          id: p.functionCall!.id || `call_${index}`,
+          type: 'function',
+          function: { name: p.functionCall!.name, arguments: JSON.stringify(p.functionCall!.args) },
+        }));
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      });
+      return;
+    }
+
+    const textParts: string[] = [];
+    msg.parts.forEach((part, index) => {
+      if (part.functionResponse) {
+        result.push({
+          role: 'tool',
+          tool_call_id: part.functionResponse.id || `call_${index}`,
+          content: JSON.stringify(part.functionResponse.response),
+        });
+      } else if (part.inlineData) {
+        textParts.push(part.inlineData.mimeType.startsWith('text/')
+          ? base64ToText(part.inlineData.data)
+          : `[Lampiran ${part.inlineData.mimeType} tidak didukung oleh model ini]`);
+      } else if (part.text) {
+        textParts.push(part.text);
+      }
+    });
+
+    if (textParts.length > 0) {
+      result.push({ role: 'user', content: textParts.join('\n\n') });
+    }
+  });
+
+  return result;
+};
+
+const parseArgs = (raw: string): Record<string, unknown> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toLlmUsage = (usage: any): LlmUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : undefined;
+
+const toLlmResponse = (text: string, toolCalls: LlmToolCall[], usage?: LlmUsage): LlmResponse => ({
+  text,
+  parts: [
+    ...(text ? [{ text }] : []),
+    ...toolCalls.map(call => ({ functionCall: call })),
+  ],
+  toolCalls,
+  sources: [],
+  usage,
+});
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly supportsGrounding = false;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: OpenAiProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey || '';
+    this.model = options.model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  private async post(request: LlmRequest, stream: boolean): Promise<Response> {
+    const hasTools = !!request.tools && request.tools.length > 0;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: toOpenAiMessages(request.systemInstruction, request.messages),
+        temperature: request.temperature,
+        tools: hasTools ? toOpenAiTools(request.tools!) : undefined,
+        tool_choice: hasTools ? (request.toolMode === 'none' ? 'none' : 'auto') : undefined,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } }
+          : undefined,
+        stream,
+        // Ask for token counts in the final chunk of a stream
+        stream_options: stream ? { include_usage: true } : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw toAiError(Object.assign(
+        new Error(`OpenAI-compatible API error ${response.status}: ${body.slice(0, 200)}`),
+        { status: response.status }
+      ));
+    }
+    return response;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const message = data.choices?.[0]?.message || {};
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new AiError('safety');
+    }
+
+    const toolCalls: LlmToolCall[] = (message.tool_calls || []).map((call: OpenAiToolCall) => ({
+      id: call.id,
+      name: call.function.name,
+      args: parseArgs(call.function.arguments),
+    }));
+
+    return toLlmResponse(message.content || '', toolCalls, toLlmUsage(data.usage));
+  }
+
+  /**
+   * Stream server-sent events. React Native's fetch has no readable body,
+   * so there the whole SSE payload is read at once and replayed.
+   */
+  async *stream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    const response = await this.post(request, true);
+    const pendingCalls: { id: string; name: string; arguments: string }[] = [];
+    let usage: LlmUsage | undefined;
+
+    const handleLine = (line: string): string => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return '';
+      const payload = trimmed.slice(5).trim();
+      if (!payload || payload === '[DONE]') return '';
+
+      try {
+        const data = JSON.parse(payload);
+        usage = toLlmUsage(data.usage) || usage;
+        const delta = data.choices?.[0]?.delta || {};
+        (delta.tool_calls || []).forEach((call: any) => {
+          const index = call.index ?? pendingCalls.length;
+          pendingCalls[index] = pendingCalls[index] || { id: call.id || `call_${index}`, name: '', arguments: '' };
+          if (call.function?.name) pendingCalls[index].name += call.function.name;
+          if (call.function?.arguments) pendingCalls[index].arguments += call.function.arguments;
+        });
+        return delta.content || '';
+      } catch {
+        return '';
+      }
+    };
+
+    const reader = (response.body as any)?.getReader?.();
+    if (reader) {
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const text = handleLine(line);
+          if (text) yield toLlmResponse(text, []);
+        }
+      }
+      const text = handleLine(buffer);
+      if (text) yield toLlmResponse(text, []);
+    } else {
+      const body = await response.text();
+      for (const line of body.split('\n')) {
+        const text = handleLine(line);
+        if (text) yield toLlmResponse(text, []);
+      }
+    }
+
+    if (pendingCalls.length > 0 || usage) {
+      yield toLlmResponse('', pendingCalls.filter(Boolean).map(call => ({
+        id: call.id,
+        name: call.name,
+        args: parseArgs(call.arguments),
+      })), usage);
+    }
+  }
+}
+
+export default OpenAiCompatibleProvider;
@@ -0,0 +1,58 @@
+/**
+ * Query Router
+ *
+ * Google Search grounding cannot be combined with function calling, so each
+ * user turn is routed to one of them:
+ * - 'search' → grounded call with googleSearch (breaking news, general web facts)
+ * - 'tools'  → function-calling loop (market data, fundamentals, analysis)
+ *
+ * Classification is a keyword score so it costs no extra model call;
+ * ties and anything involving attachments or structured output go to tools.
+ */
+
+import { QueryRoute } from "../types";
+
+export interface RouteContext {
+  hasAttachments?: boolean;
+  structured?: boolean;
+  /** False when the active provider has no search grounding */
+  groundingAvailable?: boolean;
+}
+
+// Breaking news, events and general facts from the web
+const SEARCH_PATTERNS: RegExp[] = [
+  /\b(berita|kabar|news|headline|isu|rumor)\b/,
+  /\b(terbaru|terkini|hari ini|kemarin|barusan|minggu ini|breaking|latest|today)\b/,
+  /\b(apa yang terjadi|kenapa|mengapa|why|what happened)\b/,
+  /\b(siapa|who is|kapan|when)\b/,
+  /\b(pengumuman|regulasi|kebijakan|pemilu|perang|bencana|demo)\b/,
+];
+
+// Market data, fundamentals and analysis served by the tools
+const TOOL_PATTERNS: RegExp[] = [
+  /\b(harga|price|quote|kurs|volume|market cap|kapitalisasi)\b/,
+  /\b(per|pbv|roe|roa|eps|der|p\/e|p\/b|rasio|ratio|valuasi|valuation|dividen|dividend)\b/,
+  /\b(laporan keuangan|laba|pendapatan|revenue|net income|income statement|fundamental)\b/,
+  /\b(analisis|analisa|analyze|bandingkan|compare|rekomendasi|beli|jual|hold|target)\b/,
+  /\b(historis|grafik|tren harga|chart|52 minggu|top gainers?|top losers?|gdp|cpi|inflasi bulanan)\b/,
+];
+
+const countMatches = (text: string, patterns: RegExp[]): number =>
+  patterns.reduce((count, pattern) => count + (pattern.test(text) ? 1 : 0), 0);
+
+/**
+ * Choose the route for one user turn
+ */
+export const routeQuery = (message: string, context: RouteContext = {}): QueryRoute => {
+  if (context.groundingAvailable === false || context.hasAttachments || context.structured) {
+    return 'tools';
+  }
+
+  const text = message.toLowerCase();
+  const searchScore = countMatches(text, SEARCH_PATTERNS);
+  const toolScore = countMatches(text, TOOL_PATTERNS);
+
+  return searchScore > toolScore ? 'search' : 'tools';
+};
+
+export default routeQuery;
@@ -0,0 +1,158 @@
+/**
+ * Quota Tracker
+ *
+ * Counts calls per data API (FMP, NewsAPI) per local day and reads their
+ * limit responses, so callers can stop calling a provider that has hit its
+ * limit and say so instead of answering with no data:
+ * - daily call limit from AppConfig.MARKET_DATA.DAILY_CALL_LIMIT
+ * - 429 (rate limited): no calls until Retry-After, or until tomorrow
+ * - 402 (paid plans only): that endpoint is not called again today
+ * - X-RateLimit-Remaining headers, when sent, tighten the remaining count
+ * Counts persist in AsyncStorage; a new day starts over.
+ */
+
+import { AppConfig } from "../constants/config";
+import { QuotaDay, QuotaLimitReason, QuotaProvider, QuotaStatus } from "../types";
+import { storageService } from "./storageService";
+
+/**
+ * The parts of a fetch Response the tracker reads
+ */
+export interface QuotaResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const dayKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const nextMidnight = (): number => {
+  const date = new Date();
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+};
+
+const emptyDay = (): QuotaDay => ({ day: dayKey(), calls: 0, paidOnly: [] });
+
+/**
+ * Retry-After as epoch ms (seconds or HTTP date); null when absent or invalid
+ */
+const retryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (isFinite(seconds)) return Date.now() + seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : date;
+};
+
+// ============================================
+// TRACKER
+// ============================================
+
+class QuotaTracker {
+  private state: Partial<Record<QuotaProvider, QuotaDay>> = {};
+  private loaded: Promise<void> | null = null;
+  // Serializes writes of the stored counts
+  private writes: Promise<void> = Promise.resolve();
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = storageService.getApiQuota().then(stored => {
+        this.state = { ...stored, ...this.state };
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Today's counts of a provider (earlier days start over; expired limits are cleared)
+   */
+  private today(provider: QuotaProvider): QuotaDay {
+    let day = this.state[provider];
+    if (!day || day.day !== dayKey()) {
+      day = emptyDay();
+      this.state[provider] = day;
+    }
+    if (day.limitedUntil && day.limitedUntil <= Date.now()) {
+      delete day.limitedUntil;
+      delete day.limitReason;
+    }
+    return day;
+  }
+
+  private persist(): void {
+    const snapshot = JSON.parse(JSON.stringify(this.state));
+    this.writes = this.writes
+      .then(() => storageService.saveApiQuota(snapshot))
+      .catch(error => console.warn('⚠️ Saving API quota failed:', error));
+  }
+
+  private limit(provider: QuotaProvider, day: QuotaDay, reason: QuotaLimitReason, until: number): void {
+    day.limitedUntil = until;
+    day.limitReason = reason;
+    console.warn(`🚦 ${provider} limit reached (${reason}) until ${new Date(until).toISOString()}`);
+  }
+
+  /**
+   * False when the provider (or this endpoint) must not be called right now
+   */
+  async canCall(provider: QuotaProvider, endpoint?: string): Promise<boolean> {
+    await this.load();
+    const day = this.today(provider);
+    if (day.limitedUntil) return false;
+    return !endpoint || !day.paidOnly.includes(endpoint);
+  }
+
+  /**
+   * Count a call and read its limit response. Never throws.
+   */
+  async record(provider: QuotaProvider, endpoint: string, response: QuotaResponse): Promise<void> {
+    await this.load();
+    const day = this.today(provider);
+    day.calls += 1;
+
+    const reported = Number(response.headers.get('x-ratelimit-remaining') ?? NaN);
+    if (isFinite(reported)) day.reportedRemaining = reported;
+
+    if (response.status === 429) {
+      this.limit(provider, day, 'rate_limited', retryAfter(response.headers.get('retry-after')) ?? nextMidnight());
+    } else if (response.status === 402 && !day.paidOnly.includes(endpoint)) {
+      day.paidOnly.push(endpoint);
+      console.warn(`💳 ${provider} ${endpoint} requires a paid plan`);
+    } else if (!day.limitedUntil && this.remaining(provider, day) === 0) {
+      this.limit(provider, day, 'daily_limit', nextMidnight());
+    }
+
+    this.persist();
+  }
+
+  private remaining(provider: QuotaProvider, day: QuotaDay): number | null {
+    const dailyLimit = AppConfig.MARKET_DATA.DAILY_CALL_LIMIT[provider];
+    const counted = dailyLimit > 0 ? Math.max(0, dailyLimit - day.calls) : null;
+    if (day.reportedRemaining === undefined) return counted;
+    return counted === null ? day.reportedRemaining : Math.min(counted, day.reportedRemaining);
+  }
+
+  /**
+   * Today's calls, limit and whether the provider is currently limited
+   */
+  async getStatus(provider: QuotaProvider): Promise<QuotaStatus> {
+    await this.load();
+    const day = this.today(provider);
+    return {
+      ...day,
+      paidOnly: [...day.paidOnly],
+      provider,
+      dailyLimit: AppConfig.MARKET_DATA.DAILY_CALL_LIMIT[provider],
+      remaining: this.remaining(provider, day),
+      limited: day.limitedUntil !== undefined,
+    };
+  }
+}
+
+export const quotaTracker = new QuotaTracker();
+export default quotaTracker;
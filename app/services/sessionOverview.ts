@@ -0,0 +1,101 @@
+/**
+ * Session Overview
+ *
+ * JSON schema and parser for the title, 1-2 sentence summary and tickers
+ * generated for a chat session (shown in the History list), plus the rule
+ * for when it should be (re)generated.
+ */
+
+import { Schema, Type } from "@google/genai";
+import { AppConfig } from "../constants/config";
+import { ChatSession, Language } from "../types";
+import { parseJsonResponse } from "./llmProvider";
+
+export interface ParsedSessionOverview {
+  title: string;
+  summary: string;
+  tickers: string[];
+}
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_TICKERS = 6;
+
+export const SESSION_OVERVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: "Judul singkat percakapan, maksimal 6 kata, tanpa tanda kutip.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "Ringkasan 1-2 kalimat tentang apa yang dibahas dan kesimpulannya.",
+    },
+    tickers: {
+      type: Type.ARRAY,
+      description: "Kode saham yang dibahas, contoh: BBCA, TLKM, AAPL. Kosong jika tidak ada.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["title", "summary", "tickers"],
+};
+
+export const SESSION_OVERVIEW_INSTRUCTIONS: Record<Language, string> = {
+  id: 'Anda membuat judul dan ringkasan singkat untuk daftar riwayat chat aplikasi penasihat keuangan.',
+  en: 'You write a short title and summary for the chat history list of a financial advisor app.',
+};
+
+export const SESSION_OVERVIEW_PROMPTS: Record<Language, { transcript: string; request: string }> = {
+  id: {
+    transcript: 'Percakapan',
+    request: `Buat judul singkat, ringkasan 1-2 kalimat, dan daftar kode saham untuk percakapan di atas dalam bahasa Indonesia.
+Jangan menambahkan informasi yang tidak ada di percakapan.
+Balas dalam JSON sesuai skema.`,
+  },
+  en: {
+    transcript: 'Conversation',
+    request: `Write a short title, a 1-2 sentence summary and the list of stock tickers for the conversation above, in English.
+Do not add information that is not in the conversation.
+Reply in JSON matching the schema.`,
+  },
+};
+
+/**
+ * Parse model output; returns null when it does not match the schema
+ */
+export const parseSessionOverview = (text: string): ParsedSessionOverview | null => {
+  try {
+    const data = parseJsonResponse(text);
+    if (!data || typeof data.title !== 'string' || typeof data.summary !== 'string') {
+      return null;
+    }
+
+    const title = data.title.trim().replace(/^["']|["']$/g, '').slice(0, MAX_TITLE_LENGTH);
+    const summary = data.summary.trim();
+    if (!title || !summary) return null;
+
+    // Keep ticker-like symbols only (BBCA, BBCA.JK, BRK-B), uppercase and unique
+    const tickers: string[] = Array.isArray(data.tickers)
+      ? Array.from(new Set<string>(
+          data.tickers
+            .filter((item: unknown): item is string => typeof item === 'string')
+            .map((item: string) => item.trim().toUpperCase())
+            .filter((item: string) => /^[A-Z0-9^][A-Z0-9.\-]{0,11}$/.test(item))
+        )).slice(0, MAX_TICKERS)
+      : [];
+
+    return { title, summary, tickers };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * True after the first exchange, and again every OVERVIEW_REFRESH_MESSAGES
+ * messages since the last overview
+ */
+export const needsOverview = (session: ChatSession, messageCount: number): boolean => {
+  if (messageCount < 2) return false;
+  if (!session.overview) return true;
+  return messageCount - session.overview.messageCount >= AppConfig.CHAT.OVERVIEW_REFRESH_MESSAGES;
+};
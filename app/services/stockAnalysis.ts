@@ -0,0 +1,108 @@
+/**
+ * Stock Analysis (structured output)
+ *
+ * JSON schema requested from the model in structured mode, and a parser
+ * that validates the model output into a typed StockAnalysis.
+ */
+
+import { Schema, Type } from "@google/genai";
+import { AnalysisVerdict, Language, StockAnalysis } from "../types";
+import { parseJsonResponse } from "./llmProvider";
+
+const VERDICTS: AnalysisVerdict[] = ['buy', 'hold', 'sell'];
+
+export const STOCK_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ticker: {
+      type: Type.STRING,
+      description: "Kode saham yang dianalisis, contoh: BBCA.JK, AAPL.",
+    },
+    thesis: {
+      type: Type.STRING,
+      description: "Tesis investasi utama dalam 2-4 kalimat.",
+    },
+    valuationMetrics: {
+      type: Type.ARRAY,
+      description: "Metrik valuasi penting beserta nilainya.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Nama metrik, contoh: PER, PBV, ROE." },
+          value: { type: Type.STRING, description: "Nilai metrik apa adanya, contoh: '15.2x', '18%'." },
+          comment: { type: Type.STRING, description: "Interpretasi singkat (opsional)." },
+        },
+        required: ["name", "value"],
+      },
+    },
+    risks: {
+      type: Type.ARRAY,
+      description: "Risiko utama.",
+      items: { type: Type.STRING },
+    },
+    catalysts: {
+      type: Type.ARRAY,
+      description: "Katalis yang dapat menggerakkan harga.",
+      items: { type: Type.STRING },
+    },
+    verdict: {
+      type: Type.STRING,
+      enum: VERDICTS,
+      description: "Kesimpulan: buy, hold, atau sell.",
+    },
+    confidence: {
+      type: Type.INTEGER,
+      description: "Tingkat keyakinan 0-100.",
+    },
+  },
+  required: ["ticker", "thesis", "valuationMetrics", "risks", "catalysts", "verdict", "confidence"],
+};
+
+export const STRUCTURED_ANALYSIS_PROMPTS: Record<Language, string> = {
+  id: 'Ubah analisis di atas menjadi JSON sesuai skema, dalam bahasa Indonesia. Gunakan hanya data yang sudah disebutkan; jangan menambah angka baru.',
+  en: 'Convert the analysis above into JSON matching the schema, in English. Only use data already mentioned; do not add new numbers.',
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+/**
+ * Parse and validate model output. Returns null when it does not match the schema,
+ * so callers can fall back to plain text.
+ */
+export const parseStockAnalysis = (text: string): StockAnalysis | null => {
+  try {
+    const data = parseJsonResponse(text);
+
+    if (!data || typeof data.ticker !== 'string' || typeof data.thesis !== 'string') {
+      return null;
+    }
+
+    const verdict = String(data.verdict || '').toLowerCase() as AnalysisVerdict;
+    if (!VERDICTS.includes(verdict)) {
+      return null;
+    }
+
+    const confidence = Number(data.confidence);
+
+    return {
+      ticker: data.ticker.toUpperCase(),
+      thesis: data.thesis,
+      valuationMetrics: Array.isArray(data.valuationMetrics)
+        ? data.valuationMetrics
+            .filter((m: any) => m && typeof m.name === 'string' && m.value !== undefined)
+            .map((m: any) => ({
+              name: m.name,
+              value: String(m.value),
+              comment: typeof m.comment === 'string' && m.comment ? m.comment : undefined,
+            }))
+        : [],
+      risks: toStringList(data.risks),
+      catalysts: toStringList(data.catalysts),
+      verdict,
+      confidence: isNaN(confidence) ? 0 : Math.min(100, Math.max(0, Math.round(confidence))),
+    };
+  } catch {
+    return null;
+  }
+};
@@ -1,12 +1,24 @@
 /**
- * AsyncStorage Service for persisting chat sessions
+ * AsyncStorage Service for persisting chat sessions, user preferences
+ * and token usage totals
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ChatSession, Message } from '../types';
+import { translate } from '../i18n';
+import { ChatSession, Message, QuotaDay, QuotaProvider, SymbolSearchResult, UsageTotals, UserPreferences } from '../types';
 
 const CHAT_SESSIONS_KEY = '@StockPocket/ChatSessions';
 const CURRENT_SESSION_KEY = '@StockPocket/CurrentSessionId';
+const PREFERENCES_KEY = '@StockPocket/Preferences';
+const USAGE_KEY = '@StockPocket/Usage';
+const SYMBOL_DIRECTORY_KEY = '@StockPocket/SymbolDirectory';
+const MARKET_CACHE_KEY = '@StockPocket/MarketCache';
+const API_QUOTA_KEY = '@StockPocket/ApiQuota';
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  riskProfile: 'moderate',
+  language: 'id',
+};
 
 class StorageService {
   /**
@@ -126,12 +138,172 @@ class StorageService {
   }
 
   /**
-   * Create a new empty session
+   * Get user preferences (risk profile, language), with defaults for missing fields
+   */
+  async getPreferences(): Promise<UserPreferences> {
+    try {
+      const data = await AsyncStorage.getItem(PREFERENCES_KEY);
+      return { ...DEFAULT_PREFERENCES, ...(data ? JSON.parse(data) : {}) };
+    } catch (error) {
+      console.error('Error getting preferences:', error);
+      return { ...DEFAULT_PREFERENCES };
+    }
+  }
+
+  /**
+   * Update user preferences (merged with the stored ones)
+   */
+  async savePreferences(changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    try {
+      const preferences = { ...(await this.getPreferences()), ...changes };
+      await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+      return preferences;
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stored token usage totals of a user ('guest' when signed out)
+   */
+  async getUsageTotals(userId: string): Promise<UsageTotals | null> {
+    try {
+      const data = await AsyncStorage.getItem(`${USAGE_KEY}/${userId}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting usage totals:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save token usage totals of a user
+   */
+  async saveUsageTotals(userId: string, totals: UsageTotals): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${USAGE_KEY}/${userId}`, JSON.stringify(totals));
+    } catch (error) {
+      console.error('Error saving usage totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get IDX listings learned from symbol search (see symbolResolver.ts)
+   */
+  async getSymbolDirectory(): Promise<SymbolSearchResult[]> {
+    try {
+      const data = await AsyncStorage.getItem(SYMBOL_DIRECTORY_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting symbol directory:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save IDX listings learned from symbol search
+   */
+  async saveSymbolDirectory(entries: SymbolSearchResult[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SYMBOL_DIRECTORY_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving symbol directory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stored API call counts per provider (see quotaTracker.ts)
+   */
+  async getApiQuota(): Promise<Partial<Record<QuotaProvider, QuotaDay>>> {
+    try {
+      const data = await AsyncStorage.getItem(API_QUOTA_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting API quota:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Save API call counts per provider
+   */
+  async saveApiQuota(quota: Partial<Record<QuotaProvider, QuotaDay>>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(API_QUOTA_KEY, JSON.stringify(quota));
+    } catch (error) {
+      console.error('Error saving API quota:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a persisted market data cache entry (see marketDataCache.ts)
+   */
+  async getMarketCacheEntry<T>(key: string): Promise<T | null> {
+    try {
+      const data = await AsyncStorage.getItem(`${MARKET_CACHE_KEY}/${key}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting market cache entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a market data cache entry
+   */
+  async saveMarketCacheEntry<T>(key: string, entry: T): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${MARKET_CACHE_KEY}/${key}`, JSON.stringify(entry));
+    } catch (error) {
+      console.error('Error saving market cache entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove market data cache entries
+   */
+  async removeMarketCacheEntries(keys: string[]): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove(keys.map(key => `${MARKET_CACHE_KEY}/${key}`));
+    } catch (error) {
+      console.error('Error removing market cache entries:', error);
+    }
+  }
+
+  /**
+   * Keys of the persisted market data cache entries, oldest write first
+   */
+  async getMarketCacheIndex(): Promise<string[]> {
+    try {
+      const data = await AsyncStorage.getItem(`${MARKET_CACHE_KEY}/index`);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting market cache index:', error);
+      return [];
+    }
+  }
+
+  async saveMarketCacheIndex(keys: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${MARKET_CACHE_KEY}/index`, JSON.stringify(keys));
+    } catch (error) {
+      console.error('Error saving market cache index:', error);
+    }
+  }
+
+  /**
+   * Create a new empty session (without a title: the default one, marked untitled)
    */
-  createNewSession(title: string = 'Chat Baru'): ChatSession {
+  createNewSession(title?: string): ChatSession {
     return {
       id: `session_${Date.now()}_${Math.random()}`,
-      title,
+      title: title || translate('chat.untitled'),
+      untitled: !title,
       messages: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -0,0 +1,203 @@
+/**
+ * Symbol Resolver
+ *
+ * Maps what users and the model write ("BBCA", "bca", "Bank Central Asia",
+ * "AAPL", "BBCA.JK") to the exchange-qualified symbol the data provider
+ * expects, with exchange and currency:
+ * 1. Already qualified symbols (BBCA.JK, ^JKSE) are kept
+ * 2. The IDX directory (seed list + listings learned from search, cached
+ *    in AsyncStorage) is checked by ticker, alias and company name
+ * 3. Otherwise the provider's symbol search picks the best match
+ * Unresolvable input is passed through unchanged.
+ */
+
+import { IDX_CURRENCY, IDX_EXCHANGE, IDX_SUFFIX, IDX_SYMBOLS } from "../constants/idxSymbols";
+import { SymbolSearchResult } from "../types";
+import { storageService } from "./storageService";
+
+// Exchange and currency implied by a symbol suffix (Yahoo/FMP convention)
+const SUFFIX_MARKETS: Record<string, { exchange: string; currency: string }> = {
+  JK: { exchange: IDX_EXCHANGE, currency: IDX_CURRENCY },
+  SI: { exchange: 'SGX', currency: 'SGD' },
+  KL: { exchange: 'KLSE', currency: 'MYR' },
+  HK: { exchange: 'HKSE', currency: 'HKD' },
+  T: { exchange: 'JPX', currency: 'JPY' },
+  L: { exchange: 'LSE', currency: 'GBP' },
+  AX: { exchange: 'ASX', currency: 'AUD' },
+};
+
+// Exchange codes FMP uses for Jakarta listings
+const IDX_EXCHANGE_CODES = ['IDX', 'JKT', 'JK'];
+
+/**
+ * Exchange/currency implied by a symbol; unsuffixed symbols are US listings,
+ * indexes (^JKSE) and unknown suffixes have none
+ */
+export const marketForSymbol = (symbol: string): { exchange: string; currency: string } => {
+  if (symbol.startsWith('^')) return { exchange: '', currency: '' };
+  const suffix = symbol.includes('.') ? symbol.split('.').pop()!.toUpperCase() : '';
+  return SUFFIX_MARKETS[suffix] || { exchange: suffix ? '' : 'US', currency: suffix ? '' : 'USD' };
+};
+
+export const isIdxListing = (result: SymbolSearchResult): boolean =>
+  result.symbol.toUpperCase().endsWith(IDX_SUFFIX) || IDX_EXCHANGE_CODES.includes(result.exchange.toUpperCase());
+
+const normalizeName = (text: string): string =>
+  text.toLowerCase().replace(/\b(?:pt|tbk|persero)\b|[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const seedEntry = (ticker: string, name: string): SymbolSearchResult => ({
+  symbol: `${ticker}${IDX_SUFFIX}`,
+  name,
+  exchange: IDX_EXCHANGE,
+  currency: IDX_CURRENCY,
+});
+
+export class SymbolResolver {
+  private search: (query: string) => Promise<SymbolSearchResult[]>;
+  // IDX listings by base ticker (BBCA → BBCA.JK)
+  private directory = new Map<string, SymbolSearchResult>();
+  private aliases = new Map<string, string>();
+  private directoryLoaded: Promise<void> | null = null;
+  // Resolutions made this session, by uppercased input
+  private resolved = new Map<string, SymbolSearchResult>();
+
+  /**
+   * @param search Symbol search of the active data provider
+   */
+  constructor(search: (query: string) => Promise<SymbolSearchResult[]>) {
+    this.search = search;
+    IDX_SYMBOLS.forEach(seed => {
+      this.directory.set(seed.ticker, seedEntry(seed.ticker, seed.name));
+      seed.aliases?.forEach(alias => this.aliases.set(alias, seed.ticker));
+    });
+  }
+
+  /**
+   * Resolve user/model input to an exchange-qualified symbol with exchange and currency
+   */
+  async resolve(input: string): Promise<SymbolSearchResult> {
+    const query = input.trim().replace(/^\$/, '');
+    const upper = query.toUpperCase();
+
+    // 1. Already exchange-qualified (BBCA.JK) or an index (^JKSE)
+    if (/[.^=]/.test(upper) && !/\s/.test(upper)) {
+      return { symbol: upper, name: '', ...marketForSymbol(upper) };
+    }
+
+    const cached = this.resolved.get(upper);
+    if (cached) return cached;
+
+    // 2. IDX directory
+    await this.loadDirectory();
+    const local = this.lookupDirectory(query);
+    if (local) {
+      this.resolved.set(upper, local);
+      return local;
+    }
+
+    // 3. Provider search
+    try {
+      const best = this.pickBest(query, await this.search(query));
+      if (best) {
+        const result = this.withMarket(best);
+        if (isIdxListing(result)) this.learn(result);
+        this.resolved.set(upper, result);
+        console.log(`🔎 Resolved "${query}" → ${result.symbol}`);
+        return result;
+      }
+    } catch (error) {
+      console.warn(`Symbol search failed for "${query}":`, error);
+    }
+
+    // Not cached: a later call may find it once search is available
+    return { symbol: upper, name: '', ...marketForSymbol(upper) };
+  }
+
+  // ============================================
+  // DIRECTORY
+  // ============================================
+
+  private loadDirectory(): Promise<void> {
+    if (!this.directoryLoaded) {
+      this.directoryLoaded = storageService.getSymbolDirectory().then(entries => {
+        entries.forEach(entry => {
+          const ticker = entry.symbol.toUpperCase().replace(IDX_SUFFIX, '');
+          if (!this.directory.has(ticker)) this.directory.set(ticker, entry);
+        });
+      });
+    }
+    return this.directoryLoaded;
+  }
+
+  /**
+   * Directory entry by ticker ("BBCA", "bbca"), alias ("bca") or company name
+   * ("Bank Central Asia"); names must match a whole-word prefix
+   */
+  private lookupDirectory(query: string): SymbolSearchResult | null {
+    const upper = query.toUpperCase();
+    if (this.directory.has(upper)) return this.directory.get(upper)!;
+
+    const name = normalizeName(query);
+    if (!name) return null;
+    const aliasTicker = this.aliases.get(name);
+    if (aliasTicker) return this.directory.get(aliasTicker) || null;
+
+    const matches = Array.from(this.directory.values()).filter(entry => {
+      const entryName = normalizeName(entry.name);
+      return entryName === name || entryName.startsWith(`${name} `);
+    });
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * Remember an IDX listing found through search (persisted, best effort)
+   */
+  private learn(entry: SymbolSearchResult): void {
+    const ticker = entry.symbol.toUpperCase().replace(IDX_SUFFIX, '');
+    if (this.directory.has(ticker)) return;
+
+    this.directory.set(ticker, entry);
+    const seeded = new Set(IDX_SYMBOLS.map(seed => seed.ticker));
+    const learned = Array.from(this.directory.entries())
+      .filter(([key]) => !seeded.has(key))
+      .map(([, value]) => value);
+    storageService.saveSymbolDirectory(learned).catch(() => {});
+  }
+
+  // ============================================
+  // SEARCH RANKING
+  // ============================================
+
+  /**
+   * Best search result: the IDX listing of the ticker, the exact symbol,
+   * an IDX listing whose name matches, then the first result
+   */
+  private pickBest(query: string, results: SymbolSearchResult[]): SymbolSearchResult | null {
+    if (results.length === 0) return null;
+    const upper = query.toUpperCase();
+    const name = normalizeName(query);
+
+    return results.find(r => r.symbol.toUpperCase() === `${upper}${IDX_SUFFIX}`)
+      || results.find(r => r.symbol.toUpperCase() === upper)
+      || results.find(r => isIdxListing(r) && normalizeName(r.name).includes(name))
+      || results.find(r => normalizeName(r.name).includes(name))
+      || results[0];
+  }
+
+  /**
+   * Fill in missing exchange/currency; IDX listings use IDX / IDR
+   */
+  private withMarket(result: SymbolSearchResult): SymbolSearchResult {
+    if (isIdxListing(result)) {
+      return { ...result, symbol: result.symbol.toUpperCase(), exchange: IDX_EXCHANGE, currency: IDX_CURRENCY };
+    }
+    const market = marketForSymbol(result.symbol);
+    return {
+      ...result,
+      exchange: result.exchange || market.exchange,
+      currency: result.currency || market.currency,
+    };
+  }
+}
+
+export default SymbolResolver;
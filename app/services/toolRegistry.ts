@@ -0,0 +1,288 @@
+/**
+ * Tool Registry
+ *
+ * Central place where Gemini tools (function calling) are registered.
+ * Each tool bundles its declaration, argument validator, executor,
+ * timeout, result formatter and summarizer, so new tools can be added
+ * without touching geminiService.
+ */
+
+import { FunctionCall, FunctionDeclaration } from "@google/genai";
+import { AppConfig } from "../constants/config";
+import { translate } from "../i18n";
+import { DataFreshness, GroundingSource, VerifiedFact } from "../types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ToolArgs = Record<string, unknown>;
+
+export type ToolErrorCode =
+  | 'UNKNOWN_TOOL'
+  | 'INVALID_ARGUMENTS'
+  | 'TIMEOUT'
+  | 'DATA_LIMIT'
+  | 'EXECUTION_FAILED'
+  | 'INVALID_RESULT';
+
+/**
+ * Typed error reported back to the model when a tool call cannot be served
+ */
+export class ToolError extends Error {
+  constructor(
+    public readonly code: ToolErrorCode,
+    public readonly toolName: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+
+  toJSON() {
+    return { code: this.code, tool: this.toolName, message: this.message };
+  }
+}
+
+export interface ToolDefinition<TArgs = ToolArgs, TResult = unknown> {
+  declaration: FunctionDeclaration;
+  /** Validate and normalize raw model arguments; throw ToolError('INVALID_ARGUMENTS') on bad input */
+  validate: (args: ToolArgs) => TArgs;
+  execute: (args: TArgs) => Promise<TResult>;
+  /** Per-tool timeout in ms (defaults to AppConfig.API.TOOL_TIMEOUT) */
+  timeoutMs?: number;
+  /** Shape the raw result into the payload returned to the model */
+  format?: (result: TResult, args: TArgs) => unknown;
+  /** One-line description of the result shown in the "Data yang digunakan" panel */
+  summarize?: (result: TResult, args: TArgs) => string;
+  /** Citable documents (e.g. news articles) contained in the result */
+  sources?: (result: TResult) => GroundingSource[];
+  /** Numbers in the result that answers can be fact-checked against */
+  facts?: (result: TResult, args: TArgs) => VerifiedFact[];
+  /** When the data in the result was fetched; reported to the model as data_as_of */
+  freshness?: (result: TResult) => DataFreshness | undefined;
+}
+
+export interface ToolCallOutcome {
+  id?: string;
+  name: string;
+  args: ToolArgs;
+  status: 'success' | 'error';
+  /** Payload sent back to the model as functionResponse.response */
+  response: Record<string, unknown>;
+  error?: ToolError;
+  durationMs: number;
+  /** Short human-readable result (or error) description for traces */
+  summary: string;
+  /** Citable documents found in the result (empty on error) */
+  sources: GroundingSource[];
+  /** Verified numbers found in the result (empty on error) */
+  facts: VerifiedFact[];
+  /** When the data in the result was fetched (data tools only) */
+  freshness?: DataFreshness;
+}
+
+// ============================================
+// ARGUMENT VALIDATORS
+// ============================================
+
+/**
+ * Small helpers for writing ToolDefinition.validate
+ */
+export const ToolValidators = {
+  requiredString(toolName: string, args: ToolArgs, key: string): string {
+    const value = args[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new ToolError('INVALID_ARGUMENTS', toolName, translate('tool.invalidText', { key }));
+    }
+    return value.trim();
+  },
+
+  optionalString(args: ToolArgs, key: string, fallback: string): string {
+    const value = args[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : fallback;
+  },
+
+  optionalInt(args: ToolArgs, key: string, min: number, max: number, fallback: number): number {
+    const value = Number(args[key]);
+    if (args[key] === undefined || isNaN(value)) return fallback;
+    return Math.min(max, Math.max(min, Math.round(value)));
+  },
+
+  oneOf<T extends string>(toolName: string, args: ToolArgs, key: string, allowed: readonly T[], fallback?: T): T {
+    const value = args[key];
+    if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) {
+      return value as T;
+    }
+    if (fallback !== undefined && value === undefined) return fallback;
+    throw new ToolError('INVALID_ARGUMENTS', toolName, translate('tool.invalidOption', { key, options: allowed.join(', ') }));
+  },
+};
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/**
+ * Fallback result summary when a tool has no summarize()
+ */
+const defaultSummary = (result: unknown): string => {
+  if (Array.isArray(result)) {
+    return translate(result.length > 0 ? 'tool.count.items' : 'tool.none.items', { count: result.length });
+  }
+  if (result && typeof result === 'object') {
+    return translate('tool.count.fields', { count: Object.keys(result).length });
+  }
+  return result === undefined || result === null ? translate('tool.none.items') : String(result).slice(0, 80);
+};
+
+/**
+ * Payload for the model: the formatted result plus, for market data, when it
+ * was fetched and whether it is an outdated cached copy
+ */
+const toResponse = (formatted: unknown, freshness?: DataFreshness): Record<string, unknown> => {
+  if (!freshness) return { result: formatted };
+  const asOf = new Date(freshness.fetchedAt).toISOString();
+  return {
+    result: formatted,
+    data_as_of: asOf,
+    ...(freshness.stale && {
+      stale: true,
+      note: translate(freshness.quotaLimited ? 'tool.quotaNote' : 'tool.staleNote', { date: asOf }),
+    }),
+  };
+};
+
+/**
+ * Reject if the promise does not settle within timeoutMs
+ */
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => Error): Promise<T> => {
+  if (timeoutMs <= 0) {
+    return Promise.reject(onTimeout());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+export class ToolRegistry {
+  private definitions = new Map<string, ToolDefinition<any, any>>();
+
+  /**
+   * Register a tool (replaces any tool with the same name)
+   */
+  register<TArgs, TResult>(definition: ToolDefinition<TArgs, TResult>): void {
+    const name = definition.declaration.name;
+    if (!name) {
+      throw new Error('Tool declaration must have a name');
+    }
+    this.definitions.set(name, definition);
+  }
+
+  /**
+   * Remove a tool by name
+   */
+  unregister(name: string): void {
+    this.definitions.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * All registered declarations, passed to the LLM provider as tools
+   */
+  getDeclarations(): FunctionDeclaration[] {
+    return Array.from(this.definitions.values()).map(def => def.declaration);
+  }
+
+  /**
+   * Validate, execute and format a function call. Never throws:
+   * failures are returned as a typed error payload for the model.
+   *
+   * @param deadline - Optional epoch ms after which the call is cut short
+   */
+  async execute(call: FunctionCall, deadline?: number): Promise<ToolCallOutcome> {
+    const startedAt = Date.now();
+    const name = call.name || 'unknown';
+    const args = (call.args || {}) as ToolArgs;
+
+    const fail = (error: ToolError): ToolCallOutcome => ({
+      id: call.id,
+      name,
+      args,
+      status: 'error',
+      response: { error: error.toJSON() },
+      error,
+      durationMs: Date.now() - startedAt,
+      summary: error.message,
+      sources: [],
+      facts: [],
+    });
+
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return fail(new ToolError('UNKNOWN_TOOL', name, translate('tool.unknown', { name })));
+    }
+
+    try {
+      const validArgs = definition.validate(args);
+
+      const toolTimeout = definition.timeoutMs ?? AppConfig.API.TOOL_TIMEOUT;
+      const timeoutMs = deadline !== undefined
+        ? Math.min(toolTimeout, deadline - Date.now())
+        : toolTimeout;
+
+      const result = await withTimeout(
+        definition.execute(validArgs),
+        timeoutMs,
+        () => new ToolError('TIMEOUT', name, translate('tool.timeout', { name, ms: timeoutMs }))
+      );
+
+      const formatted = definition.format ? definition.format(result, validArgs) : result;
+      const summary = definition.summarize
+        ? definition.summarize(result, validArgs)
+        : defaultSummary(result);
+      const freshness = definition.freshness?.(result);
+      const response = toResponse(formatted, freshness);
+
+      // The payload goes to the model as JSON (e.g. no cycles or BigInt)
+      try {
+        JSON.stringify(response);
+      } catch {
+        return fail(new ToolError('INVALID_RESULT', name, translate('tool.invalidResult', { name })));
+      }
+
+      return {
+        id: call.id,
+        name,
+        args,
+        status: 'success',
+        response,
+        durationMs: Date.now() - startedAt,
+        summary,
+        sources: definition.sources ? definition.sources(result) : [],
+        facts: definition.facts ? definition.facts(result, validArgs) : [],
+        freshness,
+      };
+    } catch (error: any) {
+      if (error instanceof ToolError) {
+        return fail(error);
+      }
+      return fail(new ToolError('EXECUTION_FAILED', name, error?.message || translate('tool.failed')));
+    }
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
+export default toolRegistry;
@@ -0,0 +1,171 @@
+/**
+ * Usage Service
+ *
+ * Token usage and cost accounting:
+ * - converts backend token counts into TokenUsage with an estimated cost
+ *   (AppConfig.USAGE.PRICES, USD per 1M tokens)
+ * - keeps daily/monthly totals per user locally (AsyncStorage) and, when
+ *   signed in, in Firestore
+ * - compares totals with the daily/monthly soft limits; signed-in users are
+ *   checked against their Firestore totals (all devices)
+ */
+
+import { AppConfig } from "../constants/config";
+import { TokenUsage, UsagePeriod, UsageStatus, UsageTotals } from "../types";
+import { authService } from "./authService";
+import { firestoreService } from "./firestoreService";
+import { LlmUsage } from "./llmProvider";
+import { storageService } from "./storageService";
+
+// ============================================
+// HELPERS
+// ============================================
+
+export const emptyUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  toolTokens: 0,
+  costUsd: 0,
+});
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  toolTokens: a.toolTokens + b.toolTokens,
+  costUsd: a.costUsd + b.costUsd,
+});
+
+export const totalTokens = (usage: TokenUsage): number => usage.promptTokens + usage.completionTokens;
+
+/**
+ * Price of a model; versioned names (e.g. "gemini-2.5-flash-001") use the
+ * longest matching entry. Unknown models count as free.
+ */
+const priceFor = (model: string): { input: number; output: number } => {
+  const key = Object.keys(AppConfig.USAGE.PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? AppConfig.USAGE.PRICES[key] : { input: 0, output: 0 };
+};
+
+/**
+ * TokenUsage (with estimated cost) from the counts reported by a backend
+ */
+export const toTokenUsage = (model: string, usage: LlmUsage): TokenUsage => {
+  const price = priceFor(model);
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    toolTokens: 0,
+    costUsd: (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000,
+  };
+};
+
+/**
+ * Local-time period keys: 'YYYY-MM-DD' and 'YYYY-MM'
+ */
+const periodKeys = (date: Date = new Date()): { day: string; month: string } => {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return { day: `${month}-${String(date.getDate()).padStart(2, '0')}`, month };
+};
+
+const emptyPeriod = (period: string): UsagePeriod => ({ period, usage: emptyUsage(), requests: 0 });
+
+/**
+ * Stored totals for the current periods (periods that have ended start over)
+ */
+const currentTotals = (stored: UsageTotals | null): UsageTotals => {
+  const { day, month } = periodKeys();
+  return {
+    daily: stored?.daily.period === day ? stored.daily : emptyPeriod(day),
+    monthly: stored?.monthly.period === month ? stored.monthly : emptyPeriod(month),
+  };
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+class UsageService {
+  // Serializes read-modify-write of the local totals (Firestore writes are not queued)
+  private queue: Promise<void> = Promise.resolve();
+
+  private getUserKey(): string {
+    return authService.getCurrentUser()?.uid || 'guest';
+  }
+
+  /**
+   * Add usage to the user's daily/monthly totals. Never throws.
+   */
+  record(usage: TokenUsage): Promise<void> {
+    if (totalTokens(usage) === 0) return this.queue;
+
+    const userKey = this.getUserKey();
+    this.queue = this.queue.then(async () => {
+      try {
+        const totals = currentTotals(await storageService.getUsageTotals(userKey));
+        const updated: UsageTotals = {
+          daily: { ...totals.daily, usage: addUsage(totals.daily.usage, usage), requests: totals.daily.requests + 1 },
+          monthly: { ...totals.monthly, usage: addUsage(totals.monthly.usage, usage), requests: totals.monthly.requests + 1 },
+        };
+        await storageService.saveUsageTotals(userKey, updated);
+
+        // Not awaited: setDoc only resolves once the server acknowledges the
+        // write, and getStatus() waits on this queue (offline it would block sending)
+        if (userKey !== 'guest') {
+          firestoreService.addUsage(usage, [updated.daily.period, updated.monthly.period])
+            .catch(error => console.warn('⚠️ Syncing usage to Firestore failed:', error));
+        }
+      } catch (error) {
+        console.warn('⚠️ Recording usage failed:', error);
+      }
+    });
+    return this.queue;
+  }
+
+  /**
+   * Account totals from Firestore, which count every device of the user.
+   * Local totals win when larger (a write not synced yet) or when Firestore
+   * cannot be read.
+   */
+  private async withAccountTotals(local: UsageTotals): Promise<UsageTotals> {
+    const [daily, monthly] = await Promise.all([
+      firestoreService.getUsage(local.daily.period),
+      firestoreService.getUsage(local.monthly.period),
+    ]);
+    const larger = (a: UsagePeriod, b: UsagePeriod | null): UsagePeriod =>
+      b && totalTokens(b.usage) > totalTokens(a.usage) ? b : a;
+    return { daily: larger(local.daily, daily), monthly: larger(local.monthly, monthly) };
+  }
+
+  /**
+   * Current totals compared with the soft limits
+   */
+  async getStatus(): Promise<UsageStatus> {
+    await this.queue;
+    const userKey = this.getUserKey();
+    const local = currentTotals(await storageService.getUsageTotals(userKey));
+    const totals = userKey === 'guest' ? local : await this.withAccountTotals(local);
+    const { DAILY_TOKEN_LIMIT, MONTHLY_TOKEN_LIMIT, LIMIT_ACTION, WARN_RATIO } = AppConfig.USAGE;
+
+    const dailyRatio = DAILY_TOKEN_LIMIT > 0 ? totalTokens(totals.daily.usage) / DAILY_TOKEN_LIMIT : 0;
+    const monthlyRatio = MONTHLY_TOKEN_LIMIT > 0 ? totalTokens(totals.monthly.usage) / MONTHLY_TOKEN_LIMIT : 0;
+
+    const period = monthlyRatio > dailyRatio ? 'monthly' : 'daily';
+    const ratio = Math.max(dailyRatio, monthlyRatio);
+
+    return {
+      ...totals,
+      dailyLimit: DAILY_TOKEN_LIMIT,
+      monthlyLimit: MONTHLY_TOKEN_LIMIT,
+      period,
+      ratio,
+      exceeded: ratio >= 1,
+      nearLimit: ratio >= WARN_RATIO,
+      action: LIMIT_ACTION,
+    };
+  }
+}
+
+export const usageService = new UsageService();
+export default usageService;
@@ -32,9 +32,57 @@ export interface Message {
   content: string;
   role: 'user' | 'assistant';
   timestamp: number;
+  parentId?: string | null; // Message this one follows (null = first message); see messageTree.ts
   attachments?: FileAttachment[];
-  sources?: GroundingSource[]; // Sources from Google Search grounding
+  sources?: GroundingSource[]; // Cited sources; [n] in content refers to sources[n - 1]
   isPlaceholder?: boolean;
+  isStreaming?: boolean; // Assistant message still receiving streamed text
+  analysis?: StockAnalysis; // Structured analysis (rendered as a card)
+  error?: MessageError; // Set when generating this reply failed
+  toolCalls?: ToolCallTrace[]; // Data sources (tools) used for this reply
+  route?: QueryRoute; // How this reply was produced (see queryRouter.ts)
+  followUps?: string[]; // Suggested follow-up questions (assistant only)
+  usage?: TokenUsage; // Tokens and estimated cost of generating this reply
+  factCheck?: FactCheckResult; // Numbers in the reply checked against tool data
+}
+
+/**
+ * 'search' = Google Search grounding, 'tools' = function calling
+ */
+export type QueryRoute = 'search' | 'tools';
+
+/**
+ * Record of one tool call made while generating an assistant reply
+ */
+export interface ToolCallTrace {
+  name: string;
+  args: Record<string, unknown>;
+  status: 'success' | 'error';
+  durationMs: number;
+  /** Short human-readable description of the result (or the error) */
+  summary: string;
+  /** When the market data in the result was fetched (data tools only) */
+  freshness?: DataFreshness;
+}
+
+// ============================================
+// AI ERROR TYPES
+// ============================================
+
+export type AiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'timeout'
+  | 'safety'
+  | 'invalid_tool_result'
+  | 'cancelled'
+  | 'unknown';
+
+export interface MessageError {
+  kind: AiErrorKind;
+  message: string;
+  retryable: boolean;
 }
 
 export interface ChatMessage {
@@ -46,6 +94,177 @@ export interface ChatMessage {
   sources?: GroundingSource[];
 }
 
+// ============================================
+// STRUCTURED ANALYSIS TYPES
+// ============================================
+
+export type AnalysisVerdict = 'buy' | 'hold' | 'sell';
+
+export interface ValuationMetric {
+  name: string;
+  value: string;
+  comment?: string;
+}
+
+export interface StockAnalysis {
+  ticker: string;
+  thesis: string;
+  valuationMetrics: ValuationMetric[];
+  risks: string[];
+  catalysts: string[];
+  verdict: AnalysisVerdict;
+  confidence: number; // 0-100
+}
+
+// ============================================
+// MARKET DATA TYPES (canonical, see marketDataService.ts)
+// ============================================
+
+export interface StockQuote {
+  symbol: string;
+  name: string;
+  exchange: string;
+  currency: string;
+  price: number;
+  change: number;
+  changesPercentage: number;
+  open: number;
+  previousClose: number;
+  dayLow: number;
+  dayHigh: number;
+  yearLow: number;
+  yearHigh: number;
+  priceAvg50: number;
+  priceAvg200: number;
+  volume: number;
+  avgVolume: number;
+  marketCap: number;
+  pe: number;
+  eps: number;
+  earningsAnnouncement: string;
+}
+
+export interface CompanyProfile {
+  symbol: string;
+  companyName: string;
+  currency: string;
+  exchange: string;
+  industry: string;
+  sector: string;
+  country: string;
+  description: string;
+  ceo: string;
+  website: string;
+  employees: number;
+  marketCap: number;
+  price: number;
+  beta: number;
+  ipoDate: string;
+}
+
+export type StatementPeriod = 'annual' | 'quarter';
+
+export interface FinancialStatement {
+  date: string;
+  period: string;
+  currency: string;
+  revenue: number;
+  grossProfit: number;
+  operatingIncome: number;
+  netIncome: number;
+  eps: number;
+}
+
+/**
+ * Trailing-twelve-month ratios; ROE/ROA/DER/dividend yield are fractions (0.18 = 18%)
+ */
+export interface KeyMetrics {
+  symbol: string;
+  date: string;
+  peRatio: number;
+  pbRatio: number;
+  priceToSalesRatio: number;
+  debtToEquity: number;
+  currentRatio: number;
+  roe: number;
+  roa: number;
+  dividendYield: number;
+  enterpriseValue: number;
+}
+
+export interface PricePoint {
+  date: string;
+  price: number;
+  volume: number;
+}
+
+export interface SymbolSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string;
+  currency: string;
+}
+
+export type MoverDirection = 'gainers' | 'losers';
+
+export interface MarketMover {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  changesPercentage: number;
+}
+
+export interface EconomicIndicatorPoint {
+  name: string;
+  date: string;
+  value: number;
+}
+
+export interface DataFreshness {
+  fetchedAt: number; // When the data was fetched from the provider
+  stale: boolean; // Served from cache past its TTL because a fresh fetch failed
+  quotaLimited?: boolean; // Not refreshed because the provider's API limit was reached
+}
+
+/**
+ * Market data with when it was fetched (see marketDataCache.ts)
+ */
+export interface CachedData<T> extends DataFreshness {
+  data: T;
+}
+
+// ============================================
+// API QUOTA TYPES (see quotaTracker.ts)
+// ============================================
+
+export type QuotaProvider = 'fmp' | 'newsapi';
+
+export type QuotaLimitReason = 'daily_limit' | 'rate_limited';
+
+/**
+ * Calls made to a data API on one (local) day, as stored
+ */
+export interface QuotaDay {
+  day: string; // YYYY-MM-DD
+  calls: number;
+  /** Remaining calls reported by rate-limit headers, if the API sends them */
+  reportedRemaining?: number;
+  /** No calls until this time (epoch ms), after a 429 or the daily limit */
+  limitedUntil?: number;
+  limitReason?: QuotaLimitReason;
+  /** Endpoints that answered 402 (paid plans only); not called again today */
+  paidOnly: string[];
+}
+
+export interface QuotaStatus extends QuotaDay {
+  provider: QuotaProvider;
+  dailyLimit: number; // 0 = no limit configured
+  /** Calls left today (null when unknown) */
+  remaining: number | null;
+  limited: boolean;
+}
+
 // ============================================
 // GROUNDING & NEWS TYPES (from finAdvisor)
 // ============================================
@@ -68,6 +287,7 @@ export interface NewsArticle {
   publishedDate: string;
   source: string;
   summary?: string;
+  symbol?: string;
 }
 
 // ============================================
@@ -77,10 +297,138 @@ export interface NewsArticle {
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  untitled?: boolean; // Still has the default title; replaced by the first message or the overview
+  messages: Message[]; // All branches of the conversation (tree via parentId)
+  activeLeafId?: string; // Last message of the branch currently shown
   createdAt: number;
   updatedAt: number;
   attachments: FileAttachment[];
+  summary?: ConversationSummary; // Rolling summary of older turns
+  persona?: PersonaId; // Analysis persona chosen for this chat
+  overview?: SessionOverview; // AI-generated summary shown in History
+  usage?: TokenUsage; // Total of all replies in this chat
+}
+
+/**
+ * Short description of a chat for the History list, generated by the model
+ * after the first exchange and refreshed as the chat grows
+ */
+export interface SessionOverview {
+  summary: string; // 1-2 sentences
+  tickers: string[]; // Stock tickers discussed
+  messageCount: number; // Messages on the branch when generated
+  generatedAt: number;
+}
+
+export interface ConversationSummary {
+  text: string;
+  coveredUntilMessageId: string; // Last message folded into the summary
+  coveredMessageCount: number;
+  updatedAt: number;
+}
+
+// ============================================
+// FACT CHECK TYPES
+// ============================================
+
+export type FactMetric =
+  | 'price'
+  | 'change_percent'
+  | 'pe'
+  | 'eps'
+  | 'pb'
+  | 'roe'
+  | 'roa'
+  | 'der'
+  | 'dividend_yield'
+  | 'current_ratio';
+
+/**
+ * A number returned by a tool during the turn (e.g. BBCA.JK price)
+ */
+export interface VerifiedFact {
+  ticker: string;
+  metric: FactMetric;
+  value: number;
+  tool: string;
+}
+
+/**
+ * A number stated in the answer that does not match the tool data
+ */
+export interface FactMismatch {
+  ticker: string;
+  metric: FactMetric;
+  claimed: string; // Text as written in the answer, e.g. "9.500"
+  index: number; // Position of `claimed` in the message content
+  claimedValue: number;
+  verifiedValue: number; // In the same unit as the claim (e.g. ROE 0.18 → 18 when stated as %); signed for change_percent
+  tool: string;
+}
+
+export interface FactCheckResult {
+  checkedClaims: number;
+  mismatches: FactMismatch[];
+}
+
+// ============================================
+// USAGE TYPES
+// ============================================
+
+/**
+ * Token counts and estimated cost of one or more model calls
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  toolTokens: number; // Tool results sent back to the model (estimated, included in promptTokens)
+  costUsd: number; // Estimated from AppConfig.USAGE.PRICES
+}
+
+/**
+ * Usage of the current user in one period ('YYYY-MM-DD' or 'YYYY-MM')
+ */
+export interface UsagePeriod {
+  period: string;
+  usage: TokenUsage;
+  requests: number;
+}
+
+export interface UsageTotals {
+  daily: UsagePeriod;
+  monthly: UsagePeriod;
+}
+
+/**
+ * Usage compared with the soft limits in AppConfig.USAGE
+ */
+export interface UsageStatus extends UsageTotals {
+  dailyLimit: number;
+  monthlyLimit: number;
+  /** The period closest to (or furthest over) its limit */
+  period: 'daily' | 'monthly';
+  /** Used / limit for that period (0 when limits are off) */
+  ratio: number;
+  exceeded: boolean;
+  /** At or above AppConfig.USAGE.WARN_RATIO of the limit */
+  nearLimit: boolean;
+  /** What to do when a limit is exceeded */
+  action: 'warn' | 'block';
+}
+
+// ============================================
+// PERSONA & PREFERENCE TYPES
+// ============================================
+
+export type PersonaId = 'general' | 'value' | 'dividend' | 'technical' | 'beginner';
+
+export type RiskProfile = 'conservative' | 'moderate' | 'aggressive';
+
+export type Language = 'id' | 'en';
+
+export interface UserPreferences {
+  riskProfile: RiskProfile;
+  language: Language;
 }
 
 // ============================================
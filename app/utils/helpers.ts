@@ -2,13 +2,15 @@
  * Utility functions and helpers
  */
 
+import { getLocale } from '../i18n';
+
 /**
- * Format number ke format mata uang Indonesia
+ * Format number ke format mata uang (locale mengikuti bahasa aktif)
  */
-export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('id-ID', {
+export const formatCurrency = (value: number, currency: string = 'IDR'): string => {
+  return new Intl.NumberFormat(getLocale(), {
     style: 'currency',
-    currency: 'IDR',
+    currency,
     minimumFractionDigits: 0,
   }).format(value);
 };
@@ -17,7 +19,7 @@ export const formatCurrency = (value: number): string => {
  * Format number dengan separator
  */
 export const formatNumber = (value: number): string => {
-  return new Intl.NumberFormat('id-ID').format(value);
+  return new Intl.NumberFormat(getLocale()).format(value);
 };
 
 /**
@@ -32,7 +34,7 @@ export const formatPercentage = (value: number, decimals: number = 2): string =>
  */
 export const formatDate = (date: Date | number): string => {
   const d = new Date(date);
-  return d.toLocaleDateString('id-ID', {
+  return d.toLocaleDateString(getLocale(), {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -44,7 +46,7 @@ export const formatDate = (date: Date | number): string => {
  */
 export const formatTime = (date: Date | number): string => {
   const d = new Date(date);
-  return d.toLocaleTimeString('id-ID', {
+  return d.toLocaleTimeString(getLocale(), {
     hour: '2-digit',
     minute: '2-digit',
   });
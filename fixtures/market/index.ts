@@ -0,0 +1,196 @@
+/**
+ * FMP payloads by fixturePath() (see fmpProvider.ts), served by
+ * FixtureMarketDataProvider when no fixtures directory is configured.
+ * Generated by scripts/record-market-fixtures.ts; do not edit.
+ */
+
+export const MARKET_FIXTURES: Record<string, unknown> = {
+  'biggest-gainers/default.json': require('./biggest-gainers/default.json'),
+  'biggest-losers/default.json': require('./biggest-losers/default.json'),
+  'economic-indicators/GDP.json': require('./economic-indicators/GDP.json'),
+  'historical-price-eod/light/ADRO.JK.json': require('./historical-price-eod/light/ADRO.JK.json'),
+  'historical-price-eod/light/AKRA.JK.json': require('./historical-price-eod/light/AKRA.JK.json'),
+  'historical-price-eod/light/AMMN.JK.json': require('./historical-price-eod/light/AMMN.JK.json'),
+  'historical-price-eod/light/AMRT.JK.json': require('./historical-price-eod/light/AMRT.JK.json'),
+  'historical-price-eod/light/ANTM.JK.json': require('./historical-price-eod/light/ANTM.JK.json'),
+  'historical-price-eod/light/ARTO.JK.json': require('./historical-price-eod/light/ARTO.JK.json'),
+  'historical-price-eod/light/ASII.JK.json': require('./historical-price-eod/light/ASII.JK.json'),
+  'historical-price-eod/light/BBCA.JK.json': require('./historical-price-eod/light/BBCA.JK.json'),
+  'historical-price-eod/light/BBNI.JK.json': require('./historical-price-eod/light/BBNI.JK.json'),
+  'historical-price-eod/light/BBRI.JK.json': require('./historical-price-eod/light/BBRI.JK.json'),
+  'historical-price-eod/light/BMRI.JK.json': require('./historical-price-eod/light/BMRI.JK.json'),
+  'historical-price-eod/light/BREN.JK.json': require('./historical-price-eod/light/BREN.JK.json'),
+  'historical-price-eod/light/BRIS.JK.json': require('./historical-price-eod/light/BRIS.JK.json'),
+  'historical-price-eod/light/BUKA.JK.json': require('./historical-price-eod/light/BUKA.JK.json'),
+  'historical-price-eod/light/CPIN.JK.json': require('./historical-price-eod/light/CPIN.JK.json'),
+  'historical-price-eod/light/EMTK.JK.json': require('./historical-price-eod/light/EMTK.JK.json'),
+  'historical-price-eod/light/GGRM.JK.json': require('./historical-price-eod/light/GGRM.JK.json'),
+  'historical-price-eod/light/GOTO.JK.json': require('./historical-price-eod/light/GOTO.JK.json'),
+  'historical-price-eod/light/HMSP.JK.json': require('./historical-price-eod/light/HMSP.JK.json'),
+  'historical-price-eod/light/ICBP.JK.json': require('./historical-price-eod/light/ICBP.JK.json'),
+  'historical-price-eod/light/INCO.JK.json': require('./historical-price-eod/light/INCO.JK.json'),
+  'historical-price-eod/light/INDF.JK.json': require('./historical-price-eod/light/INDF.JK.json'),
+  'historical-price-eod/light/INKP.JK.json': require('./historical-price-eod/light/INKP.JK.json'),
+  'historical-price-eod/light/ISAT.JK.json': require('./historical-price-eod/light/ISAT.JK.json'),
+  'historical-price-eod/light/JSMR.JK.json': require('./historical-price-eod/light/JSMR.JK.json'),
+  'historical-price-eod/light/KLBF.JK.json': require('./historical-price-eod/light/KLBF.JK.json'),
+  'historical-price-eod/light/MAPI.JK.json': require('./historical-price-eod/light/MAPI.JK.json'),
+  'historical-price-eod/light/MDKA.JK.json': require('./historical-price-eod/light/MDKA.JK.json'),
+  'historical-price-eod/light/MEDC.JK.json': require('./historical-price-eod/light/MEDC.JK.json'),
+  'historical-price-eod/light/PGAS.JK.json': require('./historical-price-eod/light/PGAS.JK.json'),
+  'historical-price-eod/light/PTBA.JK.json': require('./historical-price-eod/light/PTBA.JK.json'),
+  'historical-price-eod/light/SMGR.JK.json': require('./historical-price-eod/light/SMGR.JK.json'),
+  'historical-price-eod/light/TLKM.JK.json': require('./historical-price-eod/light/TLKM.JK.json'),
+  'historical-price-eod/light/TPIA.JK.json': require('./historical-price-eod/light/TPIA.JK.json'),
+  'historical-price-eod/light/UNTR.JK.json': require('./historical-price-eod/light/UNTR.JK.json'),
+  'historical-price-eod/light/UNVR.JK.json': require('./historical-price-eod/light/UNVR.JK.json'),
+  'income-statement/annual_ADRO.JK.json': require('./income-statement/annual_ADRO.JK.json'),
+  'income-statement/annual_AKRA.JK.json': require('./income-statement/annual_AKRA.JK.json'),
+  'income-statement/annual_AMMN.JK.json': require('./income-statement/annual_AMMN.JK.json'),
+  'income-statement/annual_AMRT.JK.json': require('./income-statement/annual_AMRT.JK.json'),
+  'income-statement/annual_ANTM.JK.json': require('./income-statement/annual_ANTM.JK.json'),
+  'income-statement/annual_ARTO.JK.json': require('./income-statement/annual_ARTO.JK.json'),
+  'income-statement/annual_ASII.JK.json': require('./income-statement/annual_ASII.JK.json'),
+  'income-statement/annual_BBCA.JK.json': require('./income-statement/annual_BBCA.JK.json'),
+  'income-statement/annual_BBNI.JK.json': require('./income-statement/annual_BBNI.JK.json'),
+  'income-statement/annual_BBRI.JK.json': require('./income-statement/annual_BBRI.JK.json'),
+  'income-statement/annual_BMRI.JK.json': require('./income-statement/annual_BMRI.JK.json'),
+  'income-statement/annual_BREN.JK.json': require('./income-statement/annual_BREN.JK.json'),
+  'income-statement/annual_BRIS.JK.json': require('./income-statement/annual_BRIS.JK.json'),
+  'income-statement/annual_BUKA.JK.json': require('./income-statement/annual_BUKA.JK.json'),
+  'income-statement/annual_CPIN.JK.json': require('./income-statement/annual_CPIN.JK.json'),
+  'income-statement/annual_EMTK.JK.json': require('./income-statement/annual_EMTK.JK.json'),
+  'income-statement/annual_GGRM.JK.json': require('./income-statement/annual_GGRM.JK.json'),
+  'income-statement/annual_GOTO.JK.json': require('./income-statement/annual_GOTO.JK.json'),
+  'income-statement/annual_HMSP.JK.json': require('./income-statement/annual_HMSP.JK.json'),
+  'income-statement/annual_ICBP.JK.json': require('./income-statement/annual_ICBP.JK.json'),
+  'income-statement/annual_INCO.JK.json': require('./income-statement/annual_INCO.JK.json'),
+  'income-statement/annual_INDF.JK.json': require('./income-statement/annual_INDF.JK.json'),
+  'income-statement/annual_INKP.JK.json': require('./income-statement/annual_INKP.JK.json'),
+  'income-statement/annual_ISAT.JK.json': require('./income-statement/annual_ISAT.JK.json'),
+  'income-statement/annual_JSMR.JK.json': require('./income-statement/annual_JSMR.JK.json'),
+  'income-statement/annual_KLBF.JK.json': require('./income-statement/annual_KLBF.JK.json'),
+  'income-statement/annual_MAPI.JK.json': require('./income-statement/annual_MAPI.JK.json'),
+  'income-statement/annual_MDKA.JK.json': require('./income-statement/annual_MDKA.JK.json'),
+  'income-statement/annual_MEDC.JK.json': require('./income-statement/annual_MEDC.JK.json'),
+  'income-statement/annual_PGAS.JK.json': require('./income-statement/annual_PGAS.JK.json'),
+  'income-statement/annual_PTBA.JK.json': require('./income-statement/annual_PTBA.JK.json'),
+  'income-statement/annual_SMGR.JK.json': require('./income-statement/annual_SMGR.JK.json'),
+  'income-statement/annual_TLKM.JK.json': require('./income-statement/annual_TLKM.JK.json'),
+  'income-statement/annual_TPIA.JK.json': require('./income-statement/annual_TPIA.JK.json'),
+  'income-statement/annual_UNTR.JK.json': require('./income-statement/annual_UNTR.JK.json'),
+  'income-statement/annual_UNVR.JK.json': require('./income-statement/annual_UNVR.JK.json'),
+  'key-metrics-ttm/ADRO.JK.json': require('./key-metrics-ttm/ADRO.JK.json'),
+  'key-metrics-ttm/AKRA.JK.json': require('./key-metrics-ttm/AKRA.JK.json'),
+  'key-metrics-ttm/AMMN.JK.json': require('./key-metrics-ttm/AMMN.JK.json'),
+  'key-metrics-ttm/AMRT.JK.json': require('./key-metrics-ttm/AMRT.JK.json'),
+  'key-metrics-ttm/ANTM.JK.json': require('./key-metrics-ttm/ANTM.JK.json'),
+  'key-metrics-ttm/ARTO.JK.json': require('./key-metrics-ttm/ARTO.JK.json'),
+  'key-metrics-ttm/ASII.JK.json': require('./key-metrics-ttm/ASII.JK.json'),
+  'key-metrics-ttm/BBCA.JK.json': require('./key-metrics-ttm/BBCA.JK.json'),
+  'key-metrics-ttm/BBNI.JK.json': require('./key-metrics-ttm/BBNI.JK.json'),
+  'key-metrics-ttm/BBRI.JK.json': require('./key-metrics-ttm/BBRI.JK.json'),
+  'key-metrics-ttm/BMRI.JK.json': require('./key-metrics-ttm/BMRI.JK.json'),
+  'key-metrics-ttm/BREN.JK.json': require('./key-metrics-ttm/BREN.JK.json'),
+  'key-metrics-ttm/BRIS.JK.json': require('./key-metrics-ttm/BRIS.JK.json'),
+  'key-metrics-ttm/BUKA.JK.json': require('./key-metrics-ttm/BUKA.JK.json'),
+  'key-metrics-ttm/CPIN.JK.json': require('./key-metrics-ttm/CPIN.JK.json'),
+  'key-metrics-ttm/EMTK.JK.json': require('./key-metrics-ttm/EMTK.JK.json'),
+  'key-metrics-ttm/GGRM.JK.json': require('./key-metrics-ttm/GGRM.JK.json'),
+  'key-metrics-ttm/GOTO.JK.json': require('./key-metrics-ttm/GOTO.JK.json'),
+  'key-metrics-ttm/HMSP.JK.json': require('./key-metrics-ttm/HMSP.JK.json'),
+  'key-metrics-ttm/ICBP.JK.json': require('./key-metrics-ttm/ICBP.JK.json'),
+  'key-metrics-ttm/INCO.JK.json': require('./key-metrics-ttm/INCO.JK.json'),
+  'key-metrics-ttm/INDF.JK.json': require('./key-metrics-ttm/INDF.JK.json'),
+  'key-metrics-ttm/INKP.JK.json': require('./key-metrics-ttm/INKP.JK.json'),
+  'key-metrics-ttm/ISAT.JK.json': require('./key-metrics-ttm/ISAT.JK.json'),
+  'key-metrics-ttm/JSMR.JK.json': require('./key-metrics-ttm/JSMR.JK.json'),
+  'key-metrics-ttm/KLBF.JK.json': require('./key-metrics-ttm/KLBF.JK.json'),
+  'key-metrics-ttm/MAPI.JK.json': require('./key-metrics-ttm/MAPI.JK.json'),
+  'key-metrics-ttm/MDKA.JK.json': require('./key-metrics-ttm/MDKA.JK.json'),
+  'key-metrics-ttm/MEDC.JK.json': require('./key-metrics-ttm/MEDC.JK.json'),
+  'key-metrics-ttm/PGAS.JK.json': require('./key-metrics-ttm/PGAS.JK.json'),
+  'key-metrics-ttm/PTBA.JK.json': require('./key-metrics-ttm/PTBA.JK.json'),
+  'key-metrics-ttm/SMGR.JK.json': require('./key-metrics-ttm/SMGR.JK.json'),
+  'key-metrics-ttm/TLKM.JK.json': require('./key-metrics-ttm/TLKM.JK.json'),
+  'key-metrics-ttm/TPIA.JK.json': require('./key-metrics-ttm/TPIA.JK.json'),
+  'key-metrics-ttm/UNTR.JK.json': require('./key-metrics-ttm/UNTR.JK.json'),
+  'key-metrics-ttm/UNVR.JK.json': require('./key-metrics-ttm/UNVR.JK.json'),
+  'profile/ADRO.JK.json': require('./profile/ADRO.JK.json'),
+  'profile/AKRA.JK.json': require('./profile/AKRA.JK.json'),
+  'profile/AMMN.JK.json': require('./profile/AMMN.JK.json'),
+  'profile/AMRT.JK.json': require('./profile/AMRT.JK.json'),
+  'profile/ANTM.JK.json': require('./profile/ANTM.JK.json'),
+  'profile/ARTO.JK.json': require('./profile/ARTO.JK.json'),
+  'profile/ASII.JK.json': require('./profile/ASII.JK.json'),
+  'profile/BBCA.JK.json': require('./profile/BBCA.JK.json'),
+  'profile/BBNI.JK.json': require('./profile/BBNI.JK.json'),
+  'profile/BBRI.JK.json': require('./profile/BBRI.JK.json'),
+  'profile/BMRI.JK.json': require('./profile/BMRI.JK.json'),
+  'profile/BREN.JK.json': require('./profile/BREN.JK.json'),
+  'profile/BRIS.JK.json': require('./profile/BRIS.JK.json'),
+  'profile/BUKA.JK.json': require('./profile/BUKA.JK.json'),
+  'profile/CPIN.JK.json': require('./profile/CPIN.JK.json'),
+  'profile/EMTK.JK.json': require('./profile/EMTK.JK.json'),
+  'profile/GGRM.JK.json': require('./profile/GGRM.JK.json'),
+  'profile/GOTO.JK.json': require('./profile/GOTO.JK.json'),
+  'profile/HMSP.JK.json': require('./profile/HMSP.JK.json'),
+  'profile/ICBP.JK.json': require('./profile/ICBP.JK.json'),
+  'profile/INCO.JK.json': require('./profile/INCO.JK.json'),
+  'profile/INDF.JK.json': require('./profile/INDF.JK.json'),
+  'profile/INKP.JK.json': require('./profile/INKP.JK.json'),
+  'profile/ISAT.JK.json': require('./profile/ISAT.JK.json'),
+  'profile/JSMR.JK.json': require('./profile/JSMR.JK.json'),
+  'profile/KLBF.JK.json': require('./profile/KLBF.JK.json'),
+  'profile/MAPI.JK.json': require('./profile/MAPI.JK.json'),
+  'profile/MDKA.JK.json': require('./profile/MDKA.JK.json'),
+  'profile/MEDC.JK.json': require('./profile/MEDC.JK.json'),
+  'profile/PGAS.JK.json': require('./profile/PGAS.JK.json'),
+  'profile/PTBA.JK.json': require('./profile/PTBA.JK.json'),
+  'profile/SMGR.JK.json': require('./profile/SMGR.JK.json'),
+  'profile/TLKM.JK.json': require('./profile/TLKM.JK.json'),
+  'profile/TPIA.JK.json': require('./profile/TPIA.JK.json'),
+  'profile/UNTR.JK.json': require('./profile/UNTR.JK.json'),
+  'profile/UNVR.JK.json': require('./profile/UNVR.JK.json'),
+  'quote/ADRO.JK.json': require('./quote/ADRO.JK.json'),
+  'quote/AKRA.JK.json': require('./quote/AKRA.JK.json'),
+  'quote/AMMN.JK.json': require('./quote/AMMN.JK.json'),
+  'quote/AMRT.JK.json': require('./quote/AMRT.JK.json'),
+  'quote/ANTM.JK.json': require('./quote/ANTM.JK.json'),
+  'quote/ARTO.JK.json': require('./quote/ARTO.JK.json'),
+  'quote/ASII.JK.json': require('./quote/ASII.JK.json'),
+  'quote/BBCA.JK.json': require('./quote/BBCA.JK.json'),
+  'quote/BBNI.JK.json': require('./quote/BBNI.JK.json'),
+  'quote/BBRI.JK.json': require('./quote/BBRI.JK.json'),
+  'quote/BMRI.JK.json': require('./quote/BMRI.JK.json'),
+  'quote/BREN.JK.json': require('./quote/BREN.JK.json'),
+  'quote/BRIS.JK.json': require('./quote/BRIS.JK.json'),
+  'quote/BUKA.JK.json': require('./quote/BUKA.JK.json'),
+  'quote/CPIN.JK.json': require('./quote/CPIN.JK.json'),
+  'quote/EMTK.JK.json': require('./quote/EMTK.JK.json'),
+  'quote/GGRM.JK.json': require('./quote/GGRM.JK.json'),
+  'quote/GOTO.JK.json': require('./quote/GOTO.JK.json'),
+  'quote/HMSP.JK.json': require('./quote/HMSP.JK.json'),
+  'quote/ICBP.JK.json': require('./quote/ICBP.JK.json'),
+  'quote/INCO.JK.json': require('./quote/INCO.JK.json'),
+  'quote/INDF.JK.json': require('./quote/INDF.JK.json'),
+  'quote/INKP.JK.json': require('./quote/INKP.JK.json'),
+  'quote/ISAT.JK.json': require('./quote/ISAT.JK.json'),
+  'quote/JSMR.JK.json': require('./quote/JSMR.JK.json'),
+  'quote/KLBF.JK.json': require('./quote/KLBF.JK.json'),
+  'quote/MAPI.JK.json': require('./quote/MAPI.JK.json'),
+  'quote/MDKA.JK.json': require('./quote/MDKA.JK.json'),
+  'quote/MEDC.JK.json': require('./quote/MEDC.JK.json'),
+  'quote/PGAS.JK.json': require('./quote/PGAS.JK.json'),
+  'quote/PTBA.JK.json': require('./quote/PTBA.JK.json'),
+  'quote/SMGR.JK.json': require('./quote/SMGR.JK.json'),
+  'quote/TLKM.JK.json': require('./quote/TLKM.JK.json'),
+  'quote/TPIA.JK.json': require('./quote/TPIA.JK.json'),
+  'quote/UNTR.JK.json': require('./quote/UNTR.JK.json'),
+  'quote/UNVR.JK.json': require('./quote/UNVR.JK.json'),
+  'search-symbol/bank-central.json': require('./search-symbol/bank-central.json'),
+  'search-symbol/goto.json': require('./search-symbol/goto.json'),
+  'search-symbol/telkom.json': require('./search-symbol/telkom.json'),
+};
+
+export default MARKET_FIXTURES;
@@ -0,0 +1,170 @@
+/**
+ * Record Market Fixtures
+ *
+ * Calls the FMP stable API once per endpoint for the seeded IDX tickers
+ * (constants/idxSymbols.ts) plus movers, GDP and a few searches, and writes
+ * every payload at its fixturePath(), the layout read by
+ * FixtureMarketDataProvider, plus index.ts, the map bundled into the app.
+ * Payloads are kept in memory; fixtures/market/ is only replaced once every
+ * call returned data, otherwise the script exits 1 and leaves it unchanged.
+ *
+ *   EXPO_PUBLIC_FMP_API_KEY=... npm run record-fixtures
+ *
+ * About 190 calls, within the free daily FMP limit (250).
+ */
+
+import { mkdir, mkdtemp, readdir, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join, relative } from 'path';
+import { AppConfig } from '../app/constants/config';
+import { IDX_SUFFIX, IDX_SYMBOLS } from '../app/constants/idxSymbols';
+import { FmpProvider } from '../app/services/fmpProvider';
+
+const FIXTURES_DIR = join(__dirname, '..', 'fixtures', 'market');
+const HISTORY_DAYS = 30; // Price history kept per ticker (the tool default)
+const SEARCH_QUERIES = ['bank central', 'telkom', 'goto'];
+
+// AsyncStorage's web build (used in Node) keeps data in window.localStorage;
+// here quota counts only live for this run
+const memory = new Map<string, string>();
+(globalThis as any).window = {
+  localStorage: {
+    getItem: (key: string) => memory.get(key) ?? null,
+    setItem: (key: string, value: string) => { memory.set(key, value); },
+    removeItem: (key: string) => { memory.delete(key); },
+  },
+};
+
+// Payloads by fixturePath; nothing is written until every call succeeded
+const payloads = new Map<string, unknown>();
+const missing: string[] = [];
+
+/**
+ * Keep a payload; price history is trimmed to HISTORY_DAYS
+ */
+const savePayload = (fixturePath: string, data: unknown): void => {
+  payloads.set(fixturePath, fixturePath.startsWith('historical-price-eod/') && Array.isArray(data)
+    ? data.slice(0, HISTORY_DAYS)
+    : data);
+};
+
+/**
+ * Make one provider call; the provider only reports payloads it received
+ * successfully, so a call that adds none is missing
+ */
+const recordCall = async (label: string, call: () => Promise<unknown>): Promise<void> => {
+  const before = payloads.size;
+  await call();
+  if (payloads.size === before) {
+    console.warn(`⚠️ No payload for ${label}`);
+    missing.push(label);
+  }
+};
+
+const listFixtures = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listFixtures(path);
+    return Promise.resolve(entry.name.endsWith('.json') ? [path] : []);
+  }));
+  return files.flat();
+};
+
+/**
+ * index.ts: every fixture by its fixturePath, bundled by Metro
+ */
+const writeIndex = async (dir: string): Promise<number> => {
+  const paths = (await listFixtures(dir))
+    .map(file => relative(dir, file).split('\\').join('/'))
+    .sort();
+  const lines = paths.map(path => `  '${path}': require('./${path}'),`);
+  await writeFile(join(dir, 'index.ts'), [
+    '/**',
+    ' * FMP payloads by fixturePath() (see fmpProvider.ts), served by',
+    ' * FixtureMarketDataProvider when no fixtures directory is configured.',
+    ' * Generated by scripts/record-market-fixtures.ts; do not edit.',
+    ' */',
+    '',
+    'export const MARKET_FIXTURES: Record<string, unknown> = {',
+    ...lines,
+    '};',
+    '',
+    'export default MARKET_FIXTURES;',
+    '',
+  ].join('\n'));
+  return paths.length;
+};
+
+/**
+ * Write the recorded set next to fixtures/market/, then swap it in:
+ * the old subdirectories and index.ts are replaced, README.md is kept
+ */
+const replaceFixtures = async (): Promise<number> => {
+  const staging = await mkdtemp(join(dirname(FIXTURES_DIR), '.market-'));
+  try {
+    await Promise.all(Array.from(payloads, async ([fixturePath, data]) => {
+      const file = join(staging, fixturePath);
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+    }));
+    const count = await writeIndex(staging);
+
+    await mkdir(FIXTURES_DIR, { recursive: true });
+    const current = await readdir(FIXTURES_DIR, { withFileTypes: true });
+    await Promise.all(current
+      .filter(entry => entry.isDirectory() || entry.name === 'index.ts')
+      .map(entry => rm(join(FIXTURES_DIR, entry.name), { recursive: true, force: true })));
+    for (const entry of await readdir(staging)) {
+      await rename(join(staging, entry), join(FIXTURES_DIR, entry));
+    }
+    return count;
+  } finally {
+    await rm(staging, { recursive: true, force: true });
+  }
+};
+
+const main = async () => {
+  const { FMP_API_KEY, FMP_BASE_URL, MAX_LIST_ITEMS } = AppConfig.MARKET_DATA;
+  const provider = new FmpProvider({
+    apiKey: FMP_API_KEY,
+    baseUrl: FMP_BASE_URL,
+    maxListItems: MAX_LIST_ITEMS,
+    onPayload: savePayload,
+  });
+  if (!provider.isConfigured()) {
+    console.error('❌ Set EXPO_PUBLIC_FMP_API_KEY to record fixtures');
+    process.exit(1);
+  }
+
+  // Sequential calls, to stay under FMP's per-minute rate limit
+  for (const { ticker } of IDX_SYMBOLS) {
+    const symbol = `${ticker}${IDX_SUFFIX}`;
+    console.log(`📼 Recording ${symbol}`);
+    await recordCall(`quote ${symbol}`, () => provider.getQuote(symbol));
+    await recordCall(`profile ${symbol}`, () => provider.getProfile(symbol));
+    await recordCall(`key metrics ${symbol}`, () => provider.getKeyMetrics(symbol));
+    await recordCall(`income statement ${symbol}`, () => provider.getIncomeStatement(symbol, 'annual', 4));
+    await recordCall(`history ${symbol}`, () => provider.getHistoricalPrices(symbol, HISTORY_DAYS));
+  }
+
+  console.log('📼 Recording movers, indicators and searches');
+  await recordCall('gainers', () => provider.getMarketMovers('gainers'));
+  await recordCall('losers', () => provider.getMarketMovers('losers'));
+  await recordCall('GDP', () => provider.getEconomicIndicator('GDP'));
+  for (const query of SEARCH_QUERIES) {
+    await recordCall(`search "${query}"`, () => provider.searchSymbols(query));
+  }
+
+  if (missing.length > 0) {
+    console.error(`❌ ${missing.length} payload(s) missing (see above); fixtures left unchanged`);
+    process.exit(1);
+  }
+
+  const count = await replaceFixtures();
+  console.log(`✅ ${count} fixtures written to ${relative(process.cwd(), FIXTURES_DIR)}`);
+};
+
+main().catch(error => {
+  console.error('❌ Recording fixtures failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+/**
+ * Fake GenAI Client
+ *
+ * Deterministic stand-in for the @google/genai client, for tests (kept out
+ * of app/ so it is never bundled). Scripted steps are replayed in order, one per
+ * generateContent / generateContentStream call, and every request is recorded.
+ *
+ * Usage:
+ *   const client = new FakeGenAiClient([
+ *     fakeFunctionCall('get_stock_quote', { symbol: 'BBCA.JK' }),
+ *     fakeText('Harga BBCA saat ini ...'),
+ *     fakeText('{"questions": ["Bandingkan dengan BBRI", "Lihat dividen BBCA"]}'),
+ *   ]);
+ *   const tools = new ToolRegistry();
+ *   registerFinancialTools(tools, createMarketDataService({
+ *     provider: new FixtureMarketDataProvider(), // bundled fixtures/market/
+ *   }));
+ *   const service = createGeminiService({
+ *     provider: new GeminiProvider({ model: 'fake-model', client }),
+ *     tools,
+ *   });
+ *
+ * Note that each answer is followed by a follow-up suggestions call (and a
+ * structured-analysis call in structured mode), which also consume a step.
+ */
+
+import {
+  ApiError,
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from "@google/genai";
+import { GenAiClient } from "../app/services/geminiProvider";
+import { LlmUsage } from "../app/services/llmProvider";
+import { GroundingSource } from "../app/types";
+
+/**
+ * A scripted response, or an error thrown by the call
+ */
+export type FakeStep = GenerateContentResponse | Error;
+
+export interface FakeGenAiClientOptions {
+  /** Characters per streamed text chunk (default: whole text in one chunk) */
+  chunkSize?: number;
+}
+
+// ============================================
+// STEP BUILDERS
+// ============================================
+
+/**
+ * Response with the given parts and optional grounding sources / token counts
+ */
+export const fakeResponse = (
+  parts: Part[],
+  options: { sources?: GroundingSource[]; finishReason?: FinishReason; usage?: LlmUsage } = {}
+): GenerateContentResponse => {
+  const response = new GenerateContentResponse();
+  response.candidates = [{
+    content: { role: 'model', parts },
+    finishReason: options.finishReason || FinishReason.STOP,
+    groundingMetadata: options.sources
+      ? { groundingChunks: options.sources.map(src => ({ web: { uri: src.uri, title: src.title } })) }
+      : undefined,
+  }];
+  if (options.usage) {
+    response.usageMetadata = {
+      promptTokenCount: options.usage.promptTokens,
+      candidatesTokenCount: options.usage.completionTokens,
+    };
+  }
+  return response;
+};
+
+/**
+ * Plain text answer
+ */
+export const fakeText = (text: string, sources?: GroundingSource[]): GenerateContentResponse =>
+  fakeResponse([{ text }], { sources });
+
+/**
+ * One or more function calls requested by the model in a single turn
+ */
+export const fakeFunctionCall = (
+  name: string,
+  args: Record<string, unknown> = {},
+  id?: string
+): GenerateContentResponse => fakeResponse([{ functionCall: { id, name, args } }]);
+
+export const fakeFunctionCalls = (
+  calls: { name: string; args?: Record<string, unknown>; id?: string }[]
+): GenerateContentResponse =>
+  fakeResponse(calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args || {} } })));
+
+/**
+ * Answer withheld by the safety filters
+ */
+export const fakeBlocked = (finishReason: FinishReason = FinishReason.SAFETY): GenerateContentResponse =>
+  fakeResponse([], { finishReason });
+
+/**
+ * HTTP error as thrown by the SDK (e.g. 401, 429, 503)
+ */
+export const fakeApiError = (status: number, message: string = `HTTP ${status}`): ApiError =>
+  new ApiError({ status, message });
+
+// ============================================
+// CLIENT
+// ============================================
+
+export class FakeGenAiClient implements GenAiClient {
+  /** Every request received, in order */
+  readonly requests: GenerateContentParameters[] = [];
+  private steps: FakeStep[];
+  private chunkSize?: number;
+
+  constructor(steps: FakeStep[] = [], options: FakeGenAiClientOptions = {}) {
+    this.steps = [...steps];
+    this.chunkSize = options.chunkSize;
+  }
+
+  /**
+   * Append steps to the script
+   */
+  enqueue(...steps: FakeStep[]): void {
+    this.steps.push(...steps);
+  }
+
+  /**
+   * Number of scripted steps not consumed yet
+   */
+  get remaining(): number {
+    return this.steps.length;
+  }
+
+  readonly models = {
+    generateContent: async (params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+      return this.nextStep(params);
+    },
+    generateContentStream: async (params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> => {
+      const response = this.nextStep(params);
+      return this.streamChunks(response, params.config?.abortSignal);
+    },
+  };
+
+  private nextStep(params: GenerateContentParameters): GenerateContentResponse {
+    this.requests.push(params);
+    throwIfAborted(params.config?.abortSignal);
+
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error(`FakeGenAiClient: no scripted response left for request #${this.requests.length}`);
+    }
+    if (step instanceof Error) throw step;
+    return step;
+  }
+
+  /**
+   * Split text parts into chunks; other parts and grounding come with the last chunk
+   */
+  private async *streamChunks(
+    response: GenerateContentResponse,
+    signal?: AbortSignal
+  ): AsyncGenerator<GenerateContentResponse> {
+    const candidate = response.candidates?.[0];
+    const parts = candidate?.content?.parts || [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+
+    if (!this.chunkSize || !text) {
+      yield response;
+      return;
+    }
+
+    const otherParts = parts.filter(p => !(p.text && !p.thought));
+    for (let start = 0; start < text.length; start += this.chunkSize) {
+      throwIfAborted(signal);
+      const isLast = start + this.chunkSize >= text.length;
+      const chunk = new GenerateContentResponse();
+      chunk.candidates = [{
+        ...candidate,
+        content: {
+          role: 'model',
+          parts: [{ text: text.slice(start, start + this.chunkSize) }, ...(isLast ? otherParts : [])],
+        },
+        finishReason: isLast ? candidate?.finishReason : undefined,
+        groundingMetadata: isLast ? candidate?.groundingMetadata : undefined,
+      }];
+      if (isLast) chunk.usageMetadata = response.usageMetadata;
+      yield chunk;
+    }
+  }
+}
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+};
+
+export default FakeGenAiClient;
@@ -0,0 +1,358 @@
+/**
+ * GeminiService against FakeGenAiClient: the function-calling loop, sources
+ * and error mapping, with market data from the bundled fixtures
+ */
+
+import { FunctionCallingConfigMode, GenerateContentParameters } from "@google/genai";
+import { AppConfig } from "../app/constants/config";
+import { translate } from "../app/i18n";
+import { AiError } from "../app/services/aiErrors";
+import { registerFinancialTools } from "../app/services/financialTools";
+import { FixtureMarketDataProvider } from "../app/services/fixtureMarketDataProvider";
+import { createGeminiService } from "../app/services/geminiService";
+import { GeminiProvider } from "../app/services/geminiProvider";
+import { MarketDataCache } from "../app/services/marketDataCache";
+import { createMarketDataService, MarketDataService } from "../app/services/marketDataService";
+import { ToolRegistry } from "../app/services/toolRegistry";
+import { Message } from "../app/types";
+import {
+  fakeApiError,
+  fakeBlocked,
+  fakeFunctionCall,
+  fakeFunctionCalls,
+  FakeGenAiClient,
+  FakeStep,
+  fakeText,
+} from "./fakeGenAiClient";
+
+const FOLLOW_UPS = fakeText('{"questions": ["Bandingkan dengan BBRI", "Lihat dividen BBCA"]}');
+
+const setup = (steps: FakeStep[]) => {
+  const client = new FakeGenAiClient(steps);
+  const marketData = createMarketDataService({
+    provider: new FixtureMarketDataProvider(),
+    cache: new MarketDataCache({ persist: false }),
+  });
+  const tools = new ToolRegistry();
+  registerFinancialTools(tools, marketData);
+  const service = createGeminiService({
+    provider: new GeminiProvider({ model: 'fake-model', client }),
+    tools,
+  });
+  return { client, service, tools };
+};
+
+const ask = (service: ReturnType<typeof setup>['service'], message: string) =>
+  service.generateFinancialAdvice([], message, [], { language: 'id' });
+
+/**
+ * functionResponse parts sent back to the model in a request
+ */
+const functionResponses = (request: GenerateContentParameters) => {
+  const contents = request.contents as { role: string; parts: any[] }[];
+  return contents[contents.length - 1].parts
+    .filter(part => part.functionResponse)
+    .map(part => part.functionResponse);
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+// ============================================
+// FUNCTION-CALLING LOOP
+// ============================================
+
+describe('function-calling loop', () => {
+  it('runs several rounds of tool calls before answering', async () => {
+    const { client, service } = setup([
+      fakeFunctionCall('get_stock_quote', { ticker: 'BBCA' }),
+      fakeFunctionCall('get_key_metrics', { ticker: 'BBCA' }),
+      fakeText('BBCA diperdagangkan dengan valuasi premium.'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Berapa harga dan PER saham BBCA?');
+
+    expect(result.route).toBe('tools');
+    expect(result.text).toBe('BBCA diperdagangkan dengan valuasi premium.');
+    expect(result.toolCalls.map(call => [call.name, call.status])).toEqual([
+      ['get_stock_quote', 'success'],
+      ['get_key_metrics', 'success'],
+    ]);
+    expect(result.followUps).toEqual(['Bandingkan dengan BBRI', 'Lihat dividen BBCA']);
+    expect(client.remaining).toBe(0);
+
+    // Each round gets the previous tool result, from the fixtures
+    const [quote] = functionResponses(client.requests[1]);
+    expect(quote.name).toBe('get_stock_quote');
+    expect(JSON.stringify(quote.response)).toContain('BBCA.JK');
+    expect(functionResponses(client.requests[2])[0].name).toBe('get_key_metrics');
+  });
+
+  it('executes calls of one round in parallel and returns every result together', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const getQuote = MarketDataService.prototype.getQuote;
+    jest.spyOn(MarketDataService.prototype, 'getQuote').mockImplementation(async function (this: MarketDataService, ticker) {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+      return getQuote.call(this, ticker);
+    });
+
+    const { client, service } = setup([
+      fakeFunctionCalls([
+        { name: 'get_stock_quote', args: { ticker: 'BBCA' } },
+        { name: 'get_stock_quote', args: { ticker: 'TLKM' } },
+      ]),
+      fakeText('BBCA dan TLKM sama-sama naik.'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Bandingkan harga BBCA dan TLKM');
+
+    expect(maxRunning).toBe(2);
+    expect(result.toolCalls).toHaveLength(2);
+    const responses = functionResponses(client.requests[1]);
+    expect(responses).toHaveLength(2);
+    expect(JSON.stringify(responses)).toContain('BBCA.JK');
+    expect(JSON.stringify(responses)).toContain('TLKM.JK');
+  });
+
+  it('asks for a final answer without tools once the iteration cap is reached', async () => {
+    const cap = AppConfig.API.MAX_TOOL_ITERATIONS;
+    const { client, service } = setup([
+      ...Array.from({ length: cap + 1 }, () => fakeFunctionCall('get_stock_quote', { ticker: 'BBCA' })),
+      fakeText('Jawaban akhir dari data yang ada.'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Berapa harga saham BBCA?');
+
+    expect(result.text).toBe('Jawaban akhir dari data yang ada.');
+    expect(result.toolCalls).toHaveLength(cap);
+    const modes = client.requests
+      .slice(0, cap + 2)
+      .map(request => request.config?.toolConfig?.functionCallingConfig?.mode);
+    expect(modes).toEqual([...Array(cap + 1).fill(undefined), FunctionCallingConfigMode.NONE]);
+  });
+
+  it('returns an error payload to the model for an unknown tool', async () => {
+    const { client, service } = setup([
+      fakeFunctionCall('get_crypto_price', { coin: 'BTC' }),
+      fakeText('Maaf, data kripto tidak tersedia.'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Berapa harga bitcoin?');
+
+    expect(result.text).toBe('Maaf, data kripto tidak tersedia.');
+    expect(result.toolCalls).toEqual([
+      expect.objectContaining({ name: 'get_crypto_price', status: 'error' }),
+    ]);
+    const [response] = functionResponses(client.requests[1]);
+    expect(response.response.error).toEqual(expect.objectContaining({ code: 'UNKNOWN_TOOL' }));
+  });
+
+  it('fails only the call whose result cannot be serialized', async () => {
+    const { client, service, tools } = setup([
+      fakeFunctionCalls([
+        { name: 'get_cyclic_data' },
+        { name: 'get_stock_quote', args: { ticker: 'BBCA' } },
+      ]),
+      fakeText('Harga BBCA tersedia.'),
+      FOLLOW_UPS,
+    ]);
+    tools.register({
+      declaration: { name: 'get_cyclic_data', description: 'Returns a cyclic object' },
+      validate: args => args,
+      execute: async () => {
+        const data: Record<string, unknown> = {};
+        data.self = data;
+        return data;
+      },
+    });
+
+    const result = await ask(service, 'Berapa harga saham BBCA?');
+
+    expect(result.text).toBe('Harga BBCA tersedia.');
+    expect(result.toolCalls.map(call => [call.name, call.status]).sort()).toEqual([
+      ['get_cyclic_data', 'error'],
+      ['get_stock_quote', 'success'],
+    ]);
+    const [cyclic, quote] = functionResponses(client.requests[1]);
+    expect(cyclic.response.error).toEqual(expect.objectContaining({ code: 'INVALID_RESULT' }));
+    expect(JSON.stringify(quote.response)).toContain('BBCA.JK');
+  });
+});
+
+// ============================================
+// SOURCES
+// ============================================
+
+describe('sources', () => {
+  it('cites news articles returned by tools', async () => {
+    jest.spyOn(MarketDataService.prototype, 'getMacroNews').mockResolvedValue({
+      data: [{
+        title: 'BI tahan suku bunga',
+        publishedDate: '2026-10-18T08:00:00Z',
+        source: 'Kontan',
+        summary: 'Bank Indonesia menahan BI Rate.',
+        url: 'https://example.com/bi-rate',
+      }],
+      fetchedAt: Date.now(),
+      stale: false,
+    });
+    const { service } = setup([
+      fakeFunctionCall('get_macro_news', { query: 'suku bunga' }),
+      fakeText('BI menahan suku bunga [1].'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Analisis dampak suku bunga ke saham bank');
+
+    expect(result.sources).toEqual([{ uri: 'https://example.com/bi-rate', title: 'BI tahan suku bunga' }]);
+  });
+
+  it('returns grounding sources for search-routed questions', async () => {
+    const sources = [{ uri: 'https://example.com/ihsg', title: 'IHSG ditutup menguat' }];
+    const { client, service } = setup([
+      fakeText('IHSG ditutup menguat hari ini.', sources),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await ask(service, 'Apa berita terbaru hari ini?');
+
+    expect(result.route).toBe('search');
+    expect(result.sources).toEqual(sources);
+    expect(client.requests[0].config?.tools).toEqual([{ googleSearch: {} }]);
+  });
+});
+
+// ============================================
+// LANGUAGE
+// ============================================
+
+describe('language', () => {
+  // Long enough that the older turns no longer fit the context budget
+  const longHistory = (): Message[] => Array.from({ length: 6 }, (_, index) => ({
+    id: `m${index}`,
+    role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `${index % 2 === 0 ? 'Question' : 'Answer'} ${index}: ${'lorem ipsum '.repeat(1000)}`,
+    timestamp: index,
+  }));
+
+  it('sends an English system instruction for English answers', async () => {
+    const { client, service } = setup([fakeText('BBCA is stable.'), FOLLOW_UPS]);
+
+    await service.generateFinancialAdvice([], 'How is BBCA doing?', [], { language: 'en', persona: 'value' });
+
+    const instruction = String(client.requests[0].config?.systemInstruction);
+    expect(instruction).toContain('Analysis Mode (Value Investor)');
+    expect(instruction).toContain('Source Citations');
+    expect(instruction).toContain('External Content Safety');
+    expect(instruction).not.toMatch(/Indonesian|Sitasi|Keamanan|Mode Analisis/);
+    expect(JSON.stringify(client.requests[1].contents)).toContain('Write in English');
+  });
+
+  it('summarizes older turns in the answer language', async () => {
+    const { client, service } = setup([
+      fakeText('The user asked about BBCA.'),
+      fakeText('BBCA is stable.'),
+      FOLLOW_UPS,
+    ]);
+
+    const result = await service.generateFinancialAdvice(longHistory(), 'How is BBCA doing?', [], { language: 'en' });
+
+    expect(result.summary?.text).toBe('The user asked about BBCA.');
+    const [summaryRequest, answerRequest] = client.requests;
+    expect(summaryRequest.config?.systemInstruction).toContain('in English');
+    expect(JSON.stringify(summaryRequest.contents)).toContain('User: Question 0');
+    expect(answerRequest.config?.systemInstruction).toContain('Conversation summary so far:\nThe user asked about BBCA.');
+  });
+
+  it('writes the session overview in the given language', async () => {
+    const { client, service } = setup([
+      fakeText('{"title": "BBCA valuation", "summary": "Discussed BBCA.", "tickers": ["BBCA"]}'),
+    ]);
+    const messages = longHistory().slice(0, 2);
+
+    const overview = await service.generateSessionOverview(messages, 'en');
+
+    expect(overview).toEqual({ title: 'BBCA valuation', summary: 'Discussed BBCA.', tickers: ['BBCA'] });
+    const [request] = client.requests;
+    expect(request.config?.systemInstruction).toContain('chat history list');
+    expect(JSON.stringify(request.contents)).toContain('Conversation:\\nUser: Question 0');
+    expect(JSON.stringify(request.contents)).toContain('in English');
+  });
+});
+
+// ============================================
+// ERROR MAPPING
+// ============================================
+
+describe('error mapping', () => {
+  /**
+   * Run a turn to its result or AiError, skipping the retry backoff
+   */
+  const settle = async (steps: FakeStep[]) => {
+    jest.useFakeTimers();
+    const { client, service } = setup(steps);
+    const pending = ask(service, 'Berapa harga saham BBCA?').catch(error => error);
+    await jest.runAllTimersAsync();
+    return { client, outcome: await pending };
+  };
+
+  const attempts = AppConfig.API.MAX_RETRIES + 1;
+
+  it('maps 401 to auth without retrying', async () => {
+    const { client, outcome: error } = await settle([fakeApiError(401)]);
+
+    expect(error).toBeInstanceOf(AiError);
+    expect(error.kind).toBe('auth');
+    expect(error.message).toBe(translate('error.auth'));
+    expect(client.requests).toHaveLength(1);
+  });
+
+  it('maps 429 to quota after retrying', async () => {
+    const { client, outcome: error } = await settle(Array(attempts).fill(fakeApiError(429)));
+
+    expect(error.kind).toBe('quota');
+    expect(client.requests).toHaveLength(attempts);
+  });
+
+  it('maps 503 to network after retrying', async () => {
+    const { client, outcome: error } = await settle(Array(attempts).fill(fakeApiError(503)));
+
+    expect(error.kind).toBe('network');
+    expect(client.requests).toHaveLength(attempts);
+  });
+
+  it('recovers when a retry succeeds', async () => {
+    const { client, outcome: result } = await settle([
+      fakeApiError(503),
+      fakeText('Harga BBCA stabil.'),
+      FOLLOW_UPS,
+    ]);
+
+    expect(result.text).toBe('Harga BBCA stabil.');
+    expect(client.requests).toHaveLength(3);
+  });
+
+  it('maps a safety block to safety', async () => {
+    const { client, outcome: error } = await settle([fakeBlocked()]);
+
+    expect(error.kind).toBe('safety');
+    expect(client.requests).toHaveLength(1);
+  });
+});
+
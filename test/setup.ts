@@ -0,0 +1,27 @@
+/**
+ * Jest setup: bundled market data fixtures, in-memory AsyncStorage, and
+ * Firebase stubbed out (its ESM build does not load in Jest); tests run
+ * signed out, so usage and chats stay local
+ */
+
+process.env.EXPO_PUBLIC_MARKET_DATA_PROVIDER = 'fixture';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../app/config/firebase', () => ({
+  app: {},
+  auth: { currentUser: null },
+  db: {},
+}));
+
+jest.mock('firebase/auth', () => ({
+  GoogleAuthProvider: { credential: jest.fn() },
+  onAuthStateChanged: jest.fn(() => () => {}),
+  signInWithCredential: jest.fn(),
+  signInWithPopup: jest.fn(),
+  signOut: jest.fn(),
+}));
+
+jest.mock('firebase/firestore', () => ({}));